@@ -0,0 +1,35 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+
+// Proves age >= minAge without revealing age.
+// Public signals: [ageCommitment, minAge]
+template AgeVerification() {
+    // Private
+    signal input age;
+    signal input salt;
+    // Public
+    signal input minAge;
+
+    signal output ageCommitment;
+
+    // Ages are range-checked to 8 bits so the comparison cannot wrap
+    component ageBits = Num2Bits(8);
+    ageBits.in <== age;
+    component minAgeBits = Num2Bits(8);
+    minAgeBits.in <== minAge;
+
+    component oldEnough = GreaterEqThan(8);
+    oldEnough.in[0] <== age;
+    oldEnough.in[1] <== minAge;
+    oldEnough.out === 1;
+
+    // Binds the proof to a hidden age the holder can later open
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== age;
+    commitment.inputs[1] <== salt;
+    ageCommitment <== commitment.out;
+}
+
+component main {public [minAge]} = AgeVerification();
@@ -0,0 +1,229 @@
+// Build circuit artifacts: circom -> r1cs/wasm -> Groth16 zkey -> verification key + Solidity verifier
+// Usage: npm run build:circuits [-- circuit_name ...]
+//        npm run verify:circuits [-- circuit_name ...]
+//
+// Uses the Hermez powers of tau (2^12) by default. Set PTAU_PATH to use a local
+// .ptau file instead, e.g. when building offline.
+//
+// Compilation is deterministic, so the wasm and the generated signal typings are
+// identical for everyone. The zkey gets one random phase 2 contribution, which cannot
+// be reproduced by design; --verify instead recompiles each circuit and checks that
+// the committed wasm, zkey, verification key and verifier were built from the sources and ptau.
+
+import { execFileSync } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as snarkjs from 'snarkjs';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const CIRCUITS_DIR = path.join(ROOT, 'circuits');
+const BUILD_DIR = path.join(CIRCUITS_DIR, 'build');
+// Artifacts the app bundles
+const OUTPUT_DIR = path.join(ROOT, 'src', 'circuits');
+const SIGNALS_FILE = path.join(OUTPUT_DIR, 'signals.ts');
+// Generated on-chain verifiers, one contract per circuit
+const VERIFIERS_DIR = path.join(ROOT, 'contracts', 'verifiers');
+const VERIFIER_TEMPLATE = path.join(ROOT, 'node_modules', 'snarkjs', 'templates', 'verifier_groth16.sol.ejs');
+
+const PTAU_URL = 'https://storage.googleapis.com/zkevm/ptau/powersOfTau28_hez_final_12.ptau';
+const PTAU_CACHE = path.join(BUILD_DIR, 'powersOfTau28_hez_final_12.ptau');
+
+const CIRCUITS = ['event_attendance', 'age_verification', 'uniqueness', 'co_presence'];
+
+async function resolvePtau() {
+  if (process.env.PTAU_PATH) {
+    return path.resolve(process.env.PTAU_PATH);
+  }
+  if (!fs.existsSync(PTAU_CACHE)) {
+    console.log(`⬇️  Downloading ${PTAU_URL}`);
+    const response = await fetch(PTAU_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to download powers of tau: ${response.status}`);
+    }
+    fs.writeFileSync(PTAU_CACHE, Buffer.from(await response.arrayBuffer()));
+  }
+  return PTAU_CACHE;
+}
+
+function compile(name) {
+  console.log(`🔧 Compiling ${name}.circom`);
+  execFileSync(
+    path.join(ROOT, 'node_modules', '.bin', 'circom2'),
+    [path.join(CIRCUITS_DIR, `${name}.circom`), '--r1cs', '--wasm', '--sym', '-l', path.join(ROOT, 'node_modules'), '-o', BUILD_DIR],
+    { stdio: 'inherit' }
+  );
+}
+
+// Signal layout from the compiled circuit. Wires 1.. are the outputs, then the
+// public inputs, then the private inputs, each in declaration order.
+async function readLayout(name) {
+  const { nOutputs, nPubInputs, nPrvInputs } = await snarkjs.r1cs.info(path.join(BUILD_DIR, `${name}.r1cs`));
+  const wireNames = new Map();
+
+  for (const line of fs.readFileSync(path.join(BUILD_DIR, `${name}.sym`), 'utf8').split('\n')) {
+    const [, wire, , signal] = line.split(',');
+    const match = signal?.match(/^main\.(.+)$/);
+    if (match) wireNames.set(Number(wire), match[1]);
+  }
+
+  const wires = (from, count) => Array.from({ length: count }, (_, i) => {
+    const signal = wireNames.get(from + i);
+    if (!signal || !/^\w+$/.test(signal)) {
+      throw new Error(`${name}: unsupported signal at wire ${from + i}: ${signal}`);
+    }
+    return signal;
+  });
+
+  const outputs = wires(1, nOutputs);
+  const publicInputs = wires(1 + nOutputs, nPubInputs);
+  const privateInputs = wires(1 + nOutputs + nPubInputs, nPrvInputs);
+  return { publicInputs, privateInputs, publicSignals: [...outputs, ...publicInputs] };
+}
+
+async function setup(name, ptau) {
+  const r1cs = path.join(BUILD_DIR, `${name}.r1cs`);
+  const initialZkey = path.join(BUILD_DIR, `${name}_0000.zkey`);
+  const finalZkey = path.join(BUILD_DIR, `${name}.zkey`);
+
+  console.log(`🔑 Groth16 setup for ${name}`);
+  await snarkjs.zKey.newZKey(r1cs, ptau, initialZkey);
+  // Single random phase 2 contribution; the entropy is discarded afterwards
+  await snarkjs.zKey.contribute(initialZkey, finalZkey, 'zkpresence build', randomBytes(32).toString('hex'));
+  fs.rmSync(initialZkey);
+
+  const verificationKey = await snarkjs.zKey.exportVerificationKey(finalZkey);
+  return { finalZkey, verificationKey };
+}
+
+const serialize = verificationKey => JSON.stringify(verificationKey, null, 2) + '\n';
+
+// event_attendance -> EventAttendanceVerifier
+const verifierName = name => name.split('_').map(part => part[0].toUpperCase() + part.slice(1)).join('') + 'Verifier';
+const verifierPath = name => path.join(VERIFIERS_DIR, `${verifierName(name)}.sol`);
+
+async function renderVerifier(name, zkey) {
+  const source = await snarkjs.zKey.exportSolidityVerifier(zkey, { groth16: fs.readFileSync(VERIFIER_TEMPLATE, 'utf8') });
+  return source.replace(/contract Groth16Verifier\b/, `contract ${verifierName(name)}`);
+}
+
+async function build(name, ptau) {
+  compile(name);
+  const { finalZkey, verificationKey } = await setup(name, ptau);
+
+  const outDir = path.join(OUTPUT_DIR, name);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.copyFileSync(path.join(BUILD_DIR, `${name}_js`, `${name}.wasm`), path.join(outDir, `${name}.wasm`));
+  fs.copyFileSync(finalZkey, path.join(outDir, `${name}.zkey`));
+  fs.writeFileSync(path.join(outDir, 'verification_key.json'), serialize(verificationKey));
+  fs.mkdirSync(VERIFIERS_DIR, { recursive: true });
+  fs.writeFileSync(verifierPath(name), await renderVerifier(name, finalZkey));
+  console.log(`✅ ${name} artifacts written to ${path.relative(ROOT, outDir)} and ${path.relative(ROOT, verifierPath(name))}`);
+}
+
+async function verify(name, ptau) {
+  compile(name);
+  const outDir = path.join(OUTPUT_DIR, name);
+  const zkey = path.join(outDir, `${name}.zkey`);
+
+  const builtWasm = fs.readFileSync(path.join(BUILD_DIR, `${name}_js`, `${name}.wasm`));
+  if (!builtWasm.equals(fs.readFileSync(path.join(outDir, `${name}.wasm`)))) {
+    throw new Error(`${name}: committed wasm does not match the circuit source`);
+  }
+  if (!(await snarkjs.zKey.verifyFromR1cs(path.join(BUILD_DIR, `${name}.r1cs`), ptau, zkey))) {
+    throw new Error(`${name}: committed zkey was not built from this circuit and ptau`);
+  }
+  const verificationKey = await snarkjs.zKey.exportVerificationKey(zkey);
+  if (serialize(verificationKey) !== fs.readFileSync(path.join(outDir, 'verification_key.json'), 'utf8')) {
+    throw new Error(`${name}: committed verification key does not match the zkey`);
+  }
+  if (!fs.existsSync(verifierPath(name)) || await renderVerifier(name, zkey) !== fs.readFileSync(verifierPath(name), 'utf8')) {
+    throw new Error(`${name}: ${path.relative(ROOT, verifierPath(name))} does not match the zkey`);
+  }
+  console.log(`✅ ${name} artifacts match the sources`);
+}
+
+const list = names => `[${names.map(name => `'${name}'`).join(', ')}]`;
+
+// Typed input and public-signal layouts, shared by the provers and verifiers
+function renderSignals(layouts) {
+  const entries = Object.entries(layouts).map(([name, layout]) => [
+    `  ${name}: {`,
+    `    publicInputs: ${list(layout.publicInputs)},`,
+    `    privateInputs: ${list(layout.privateInputs)},`,
+    `    publicSignals: ${list(layout.publicSignals)}`,
+    '  }'
+  ].join('\n'));
+
+  return `// Generated by circuits/build.mjs from the compiled circuits. Do not edit.
+
+export const CIRCUIT_SIGNALS = {
+${entries.join(',\n')}
+} as const;
+
+export type CircuitName = keyof typeof CIRCUIT_SIGNALS;
+
+type Layout<C extends CircuitName> = (typeof CIRCUIT_SIGNALS)[C];
+
+// Witness inputs as decimal strings (or numbers for small values)
+export type CircuitInput<C extends CircuitName> = Record<
+  Layout<C>['publicInputs'][number] | Layout<C>['privateInputs'][number],
+  string | number
+>;
+
+export type CircuitPublicSignals<C extends CircuitName> = Record<Layout<C>['publicSignals'][number], string>;
+
+export const isCircuitName = (value: unknown): value is CircuitName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CIRCUIT_SIGNALS, value);
+
+// Name a proof's public signals using the circuit's layout
+export const toNamedSignals = <C extends CircuitName>(circuit: C, publicSignals: string[]): CircuitPublicSignals<C> => {
+  const names: readonly string[] = CIRCUIT_SIGNALS[circuit].publicSignals;
+  if (publicSignals.length !== names.length) {
+    throw new Error(\`\${circuit} expects \${names.length} public signals, got \${publicSignals.length}\`);
+  }
+  return Object.fromEntries(names.map((name, i) => [name, publicSignals[i]])) as CircuitPublicSignals<C>;
+};
+`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verifyOnly = args.includes('--verify');
+  const requested = args.filter(arg => arg !== '--verify');
+  const unknown = requested.filter(name => !CIRCUITS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown circuits: ${unknown.join(', ')}`);
+  }
+
+  fs.mkdirSync(BUILD_DIR, { recursive: true });
+  const ptau = await resolvePtau();
+
+  for (const name of requested.length > 0 ? requested : CIRCUITS) {
+    await (verifyOnly ? verify(name, ptau) : build(name, ptau));
+  }
+
+  // Layouts always cover every circuit, so a partial build keeps the file complete
+  const layouts = {};
+  for (const name of CIRCUITS) {
+    if (!fs.existsSync(path.join(BUILD_DIR, `${name}.sym`))) compile(name);
+    layouts[name] = await readLayout(name);
+  }
+  const signals = renderSignals(layouts);
+  if (verifyOnly) {
+    if (!fs.existsSync(SIGNALS_FILE) || fs.readFileSync(SIGNALS_FILE, 'utf8') !== signals) {
+      throw new Error(`${path.relative(ROOT, SIGNALS_FILE)} is out of date, run npm run build:circuits`);
+    }
+  } else {
+    fs.writeFileSync(SIGNALS_FILE, signals);
+    console.log(`✅ Signal layouts written to ${path.relative(ROOT, SIGNALS_FILE)}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Circuit build failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+// One side of a two-party co-presence handshake. Each party proves knowledge of its
+// own identity secret, derives a session-scoped nullifier, and commits to the pair
+// {own nullifier, peer nullifier}. The pair id is symmetric, so both proofs of a
+// genuine handshake share it, and neither party learns the other's secret.
+// The identity nullifier must open the public identity commitment,
+// commitment = H(H(trapdoor, nullifier)), as in event_attendance. The peer nullifier is
+// only checked by pairing: a verifier accepts two proofs for the same session whose
+// pair ids match and whose peerNullifier is the other proof's nullifier.
+// Not used by the app: the QR handshake in src/lib/coPresence.ts is proven with
+// identity-key signatures instead.
+// Public signals: [nullifier, pairId, sessionId, peerNullifier, identityCommitment]
+template CoPresence() {
+    // Private
+    signal input identityTrapdoor;
+    signal input identityNullifier;
+    // Public
+    signal input sessionId;
+    signal input peerNullifier;
+    signal input identityCommitment;
+
+    signal output nullifier;
+    signal output pairId;
+
+    component secretHash = Poseidon(2);
+    secretHash.inputs[0] <== identityTrapdoor;
+    secretHash.inputs[1] <== identityNullifier;
+
+    component commitmentHash = Poseidon(1);
+    commitmentHash.inputs[0] <== secretHash.out;
+    identityCommitment === commitmentHash.out;
+
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== identityNullifier;
+    nullifierHash.inputs[1] <== sessionId;
+    nullifier <== nullifierHash.out;
+
+    // Sum and product identify the unordered pair
+    signal pairProduct;
+    pairProduct <== nullifier * peerNullifier;
+
+    component pairHash = Poseidon(3);
+    pairHash.inputs[0] <== sessionId;
+    pairHash.inputs[1] <== nullifier + peerNullifier;
+    pairHash.inputs[2] <== pairProduct;
+    pairId <== pairHash.out;
+}
+
+component main {public [sessionId, peerNullifier, identityCommitment]} = CoPresence();
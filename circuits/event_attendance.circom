@@ -0,0 +1,41 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+// Proves attendance of an event without revealing the identity behind it.
+// The nullifier is fixed per identity and event, so a second claim is detectable.
+// The identity nullifier must open the identity commitment,
+// commitment = H(H(trapdoor, nullifier)), so it cannot be picked freely.
+// checkInDigest is the EIP-712 hash of the organizer-signed kiosk check-in, reduced
+// into the field; the registry recovers the organizer's signature over it.
+// Public signals: [nullifier, externalNullifier, identityCommitment, checkInDigest]
+template EventAttendance() {
+    // Private
+    signal input identityTrapdoor;
+    signal input identityNullifier;
+    // Public
+    signal input externalNullifier;
+    signal input identityCommitment;
+    signal input checkInDigest;
+
+    signal output nullifier;
+
+    component secretHash = Poseidon(2);
+    secretHash.inputs[0] <== identityTrapdoor;
+    secretHash.inputs[1] <== identityNullifier;
+
+    component commitmentHash = Poseidon(1);
+    commitmentHash.inputs[0] <== secretHash.out;
+    identityCommitment === commitmentHash.out;
+
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== identityNullifier;
+    nullifierHash.inputs[1] <== externalNullifier;
+    nullifier <== nullifierHash.out;
+
+    // Keep the check-in digest in the constraint system so the proof commits to it
+    signal checkInDigestSquared;
+    checkInDigestSquared <== checkInDigest * checkInDigest;
+}
+
+component main {public [externalNullifier, identityCommitment, checkInDigest]} = EventAttendance();
@@ -0,0 +1,27 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+// Proves knowledge of a secret and derives a scope-bound nullifier from it,
+// so the same person always produces the same nullifier within a scope.
+// Public signals: [commitment, nullifier, scope]
+template Uniqueness() {
+    // Private
+    signal input secret;
+    // Public
+    signal input scope;
+
+    signal output commitment;
+    signal output nullifier;
+
+    component commitmentHash = Poseidon(1);
+    commitmentHash.inputs[0] <== secret;
+    commitment <== commitmentHash.out;
+
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== secret;
+    nullifierHash.inputs[1] <== scope;
+    nullifier <== nullifierHash.out;
+}
+
+component main {public [scope]} = Uniqueness();
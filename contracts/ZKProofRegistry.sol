@@ -7,20 +7,56 @@ import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/**
+ * @dev Generated Groth16 verifier for the event_attendance circuit
+ * (contracts/verifiers/EventAttendanceVerifier.sol)
+ * Public signals: [nullifier, externalNullifier, identityCommitment, checkInDigest]
+ */
+interface IEventAttendanceVerifier {
+    function verifyProof(
+        uint256[2] calldata pA,
+        uint256[2][2] calldata pB,
+        uint256[2] calldata pC,
+        uint256[4] calldata pubSignals
+    ) external view returns (bool);
+}
 
 /**
  * @title ZKProofRegistry
  * @dev Registry for ZK proofs with NFT minting for valid submissions
+ * Attendance proofs are verified on-chain before anything is recorded or minted, and must
+ * commit to a kiosk check-in signed by the event's organizer (EIP-712, see src/lib/checkIn.ts)
  * Deployed on Polygon zkEVM testnet
  */
-contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable, ReentrancyGuard {
+contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable, ReentrancyGuard, EIP712 {
     using Counters for Counters.Counter;
     
     Counters.Counter private _tokenIdCounter;
     Counters.Counter private _proofCounter;
     
+    // BN254 scalar field; circuit signals are reduced into it
+    uint256 private constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    
+    bytes32 private constant CHECK_IN_TYPEHASH =
+        keccak256("CheckIn(string eventId,uint64 notBefore,uint64 notAfter,bytes32 nonce)");
+    
+    IEventAttendanceVerifier public immutable attendanceVerifier;
+    
+    // Kiosk check-in signed by the event organizer; the eventId is the one submitted with the proof
+    struct CheckIn {
+        uint64 notBefore;
+        uint64 notAfter;
+        bytes32 nonce;
+        bytes signature;
+    }
+    
     struct ProofCommitment {
         bytes32 commitment;
+        bytes32 nullifier;
         string eventId;
         address submitter;
         uint256 timestamp;
@@ -51,6 +87,15 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
     // Mapping from eventId to list of proof IDs
     mapping(string => uint256[]) public eventProofs;
     
+    // Address whose kiosk check-ins are accepted for each event
+    mapping(string => address) public eventOrganizer;
+    
+    // Event-scoped nullifiers that have already been spent
+    mapping(bytes32 => bool) public nullifierUsed;
+    
+    // Group merkle roots anchored per event, keyed by H(eventId, root)
+    mapping(bytes32 => address) public groupRootSubmitter;
+    
     // NFT base URI for metadata
     string private _baseTokenURI;
     
@@ -61,6 +106,11 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
         address indexed submitter
     );
     
+    event NullifierSpent(
+        bytes32 indexed nullifier,
+        string eventId
+    );
+    
     event ProofValidated(
         uint256 indexed proofId,
         bool isValid
@@ -79,29 +129,66 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
         string imageUri
     );
     
+    event EventOrganizerSet(
+        string indexed eventId,
+        address indexed organizer
+    );
+    
+    event GroupRootAnchored(
+        bytes32 indexed merkleRoot,
+        string eventId,
+        address indexed submitter
+    );
+    
     constructor(
         string memory name,
         string memory symbol,
-        string memory baseTokenURI
-    ) ERC721(name, symbol) {
+        string memory baseTokenURI,
+        IEventAttendanceVerifier verifier
+    ) ERC721(name, symbol) EIP712("ZKPresence Check-In", "1") {
+        require(address(verifier) != address(0), "Verifier cannot be empty");
         _baseTokenURI = baseTokenURI;
+        attendanceVerifier = verifier;
     }
     
     /**
-     * @dev Submit a ZK proof commitment
+     * @dev Submit an event attendance proof; it is verified on-chain and mints an NFT
      * @param eventId The event identifier
-     * @param proofData The ZK proof data (encoded)
+     * @param pA Groth16 proof point A
+     * @param pB Groth16 proof point B (coordinates in verifier order)
+     * @param pC Groth16 proof point C
+     * @param pubSignals [nullifier, externalNullifier, identityCommitment, checkInDigest]
+     * @param checkIn The organizer-signed check-in the proof's checkInDigest commits to
      */
     function submitProof(
         string memory eventId,
-        bytes memory proofData
+        uint256[2] calldata pA,
+        uint256[2][2] calldata pB,
+        uint256[2] calldata pC,
+        uint256[4] calldata pubSignals,
+        CheckIn calldata checkIn
     ) external nonReentrant returns (uint256) {
         require(bytes(eventId).length > 0, "Event ID cannot be empty");
-        require(proofData.length > 0, "Proof data cannot be empty");
+        require(pubSignals[0] != 0, "Nullifier cannot be empty");
+        
+        // The proof must be scoped to this event: externalNullifier = keccak256(eventId) mod p
+        require(
+            pubSignals[1] == uint256(keccak256(bytes(eventId))) % SNARK_SCALAR_FIELD,
+            "Proof is for a different event"
+        );
+        
+        _verifyCheckIn(eventId, checkIn, pubSignals[3]);
+        
+        // One claim per identity per event
+        bytes32 nullifier = bytes32(pubSignals[0]);
+        require(!nullifierUsed[nullifier], "Nullifier already used");
+        
+        require(attendanceVerifier.verifyProof(pA, pB, pC, pubSignals), "Invalid proof");
+        nullifierUsed[nullifier] = true;
         
         // Create commitment hash
         bytes32 commitment = keccak256(
-            abi.encodePacked(eventId, proofData, msg.sender, block.timestamp)
+            abi.encode(eventId, pA, pB, pC, pubSignals, msg.sender)
         );
         
         // Ensure this commitment hasn't been submitted before
@@ -113,10 +200,11 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
         // Store proof commitment
         proofCommitments[proofId] = ProofCommitment({
             commitment: commitment,
+            nullifier: nullifier,
             eventId: eventId,
             submitter: msg.sender,
             timestamp: block.timestamp,
-            isValid: true, // Auto-validate for demo (in production, this would be verified)
+            isValid: true,
             nftTokenId: 0
         });
         
@@ -126,15 +214,54 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
         eventProofs[eventId].push(proofId);
         
         emit ProofSubmitted(proofId, commitment, eventId, msg.sender);
+        emit NullifierSpent(nullifier, eventId);
         
-        // Auto-mint NFT for valid proof
-        if (proofCommitments[proofId].isValid) {
-            _mintNFT(proofId, msg.sender, eventId);
-        }
+        _mintNFT(proofId, msg.sender, eventId);
         
         return proofId;
     }
     
+    /**
+     * @dev Check a kiosk check-in: inside its validity window, signed by the event's organizer,
+     * and the one the proof's checkInDigest (its EIP-712 hash mod p) commits to
+     */
+    function _verifyCheckIn(
+        string memory eventId,
+        CheckIn calldata checkIn,
+        uint256 checkInDigest
+    ) internal view {
+        require(block.timestamp >= checkIn.notBefore, "Check-in is not valid yet");
+        require(block.timestamp <= checkIn.notAfter, "Check-in has expired");
+        
+        address organizer = eventOrganizer[eventId];
+        require(organizer != address(0), "Event has no organizer");
+        
+        bytes32 checkInHash = _hashTypedDataV4(keccak256(abi.encode(
+            CHECK_IN_TYPEHASH,
+            keccak256(bytes(eventId)),
+            checkIn.notBefore,
+            checkIn.notAfter,
+            checkIn.nonce
+        )));
+        require(checkInDigest == uint256(checkInHash) % SNARK_SCALAR_FIELD, "Proof is for a different check-in");
+        require(ECDSA.recover(checkInHash, checkIn.signature) == organizer, "Check-in not signed by the organizer");
+    }
+    
+    /**
+     * @dev Anchor a group session's merkle root; records a timestamped commitment only,
+     * since group membership is not proven in zero knowledge
+     */
+    function anchorGroupRoot(string memory eventId, bytes32 merkleRoot) external {
+        require(bytes(eventId).length > 0, "Event ID cannot be empty");
+        require(merkleRoot != bytes32(0), "Merkle root cannot be empty");
+        
+        bytes32 key = keccak256(abi.encode(eventId, merkleRoot));
+        require(groupRootSubmitter[key] == address(0), "Group already anchored");
+        groupRootSubmitter[key] = msg.sender;
+        
+        emit GroupRootAnchored(merkleRoot, eventId, msg.sender);
+    }
+    
     /**
      * @dev Internal function to mint NFT for valid proof
      */
@@ -183,6 +310,14 @@ contract ZKProofRegistry is ERC721, ERC721URIStorage, ERC721Enumerable, Ownable,
         emit EventMetadataSet(eventId, eventName, imageUri);
     }
     
+    /**
+     * @dev Register the address whose kiosk check-ins are accepted for an event (only owner)
+     */
+    function setEventOrganizer(string memory eventId, address organizer) external onlyOwner {
+        eventOrganizer[eventId] = organizer;
+        emit EventOrganizerSet(eventId, organizer);
+    }
+    
     /**
      * @dev Manually validate/invalidate a proof (only owner)
      */
@@ -18,6 +18,13 @@ async function main() {
     console.warn("   https://bridge.zkevm.polygonscan.com/");
   }
 
+  // Deploy the generated Groth16 verifier for attendance proofs
+  console.log("⏳ Deploying EventAttendanceVerifier...");
+  const EventAttendanceVerifier = await ethers.getContractFactory("EventAttendanceVerifier");
+  const verifier = await EventAttendanceVerifier.deploy();
+  await verifier.deployed();
+  console.log("✅ EventAttendanceVerifier deployed to:", verifier.address);
+
   // Deploy contract
   const ZKProofRegistry = await ethers.getContractFactory("ZKProofRegistry");
   
@@ -27,7 +34,7 @@ async function main() {
   const baseTokenURI = "https://api.zkproof.nexus/metadata/";
   
   console.log("⏳ Deploying contract...");
-  const registry = await ZKProofRegistry.deploy(name, symbol, baseTokenURI);
+  const registry = await ZKProofRegistry.deploy(name, symbol, baseTokenURI, verifier.address);
   
   console.log("⏳ Waiting for deployment confirmation...");
   await registry.deployed();
@@ -81,6 +88,11 @@ async function main() {
       );
       await tx.wait();
       console.log(`✅ Set metadata for ${event.eventName}`);
+
+      // The deployer signs the sample events' kiosk check-ins
+      const organizerTx = await registry.setEventOrganizer(event.eventId, deployer.address);
+      await organizerTx.wait();
+      console.log(`✅ Set organizer for ${event.eventName}`);
     } catch (error) {
       console.warn(`⚠️  Failed to set metadata for ${event.eventName}:`, error.message);
     }
@@ -90,6 +102,7 @@ async function main() {
   const deploymentInfo = {
     contractAddress: registry.address,
     contractName: "ZKProofRegistry",
+    attendanceVerifierAddress: verifier.address,
     deployerAddress: deployer.address,
     txHash: registry.deployTransaction.hash,
     blockNumber: registry.deployTransaction.blockNumber,
@@ -98,20 +111,33 @@ async function main() {
     explorerUrl: "https://testnet-zkevm.polygonscan.com",
     timestamp: new Date().toISOString(),
     abi: [
-      "function submitProof(string eventId, bytes proofData) external returns (uint256)",
+      "function submitProof(string eventId, uint256[2] pA, uint256[2][2] pB, uint256[2] pC, uint256[4] pubSignals, tuple(uint64 notBefore, uint64 notAfter, bytes32 nonce, bytes signature) checkIn) external returns (uint256)",
+      "function anchorGroupRoot(string eventId, bytes32 merkleRoot) external",
+      "function attendanceVerifier() external view returns (address)",
+      "function groupRootSubmitter(bytes32 key) external view returns (address)",
+      "function eventOrganizer(string eventId) external view returns (address)",
+      "function nullifierUsed(bytes32 nullifier) external view returns (bool)",
       "function getUserProofs(address user) external view returns (uint256[])",
       "function getTotalProofs() external view returns (uint256)",
       "function getTotalNFTs() external view returns (uint256)",
       "function getProof(uint256 proofId) external view returns (bytes32, string, address, uint256, bool, uint256)",
       "function hasValidProofForEvent(address user, string eventId) external view returns (bool)",
       "function setEventMetadata(string eventId, string eventName, string eventDescription, string imageUri, string location, uint256 eventDate) external",
+      "function setEventOrganizer(string eventId, address organizer) external",
       "function validateProof(uint256 proofId, bool isValid) external",
       "function balanceOf(address owner) external view returns (uint256)",
       "function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256)",
       "function tokenURI(uint256 tokenId) external view returns (string)",
+      "function getEventProofs(string eventId) external view returns (uint256[])",
+      "function eventMetadata(string eventId) external view returns (string eventName, string eventDescription, string imageUri, string location, uint256 eventDate)",
+      "function owner() external view returns (address)",
       "event ProofSubmitted(uint256 indexed proofId, bytes32 indexed commitment, string eventId, address indexed submitter)",
       "event NFTMinted(uint256 indexed tokenId, uint256 indexed proofId, address indexed recipient, string eventId)",
-      "event ProofValidated(uint256 indexed proofId, bool isValid)"
+      "event ProofValidated(uint256 indexed proofId, bool isValid)",
+      "event NullifierSpent(bytes32 indexed nullifier, string eventId)",
+      "event EventMetadataSet(string indexed eventId, string eventName, string imageUri)",
+      "event EventOrganizerSet(string indexed eventId, address indexed organizer)",
+      "event GroupRootAnchored(bytes32 indexed merkleRoot, string eventId, address indexed submitter)"
     ]
   };
 
@@ -0,0 +1,48 @@
+// Generated by circuits/build.mjs from the compiled circuits. Do not edit.
+
+export const CIRCUIT_SIGNALS = {
+  event_attendance: {
+    publicInputs: ['externalNullifier', 'identityCommitment', 'checkInDigest'],
+    privateInputs: ['identityTrapdoor', 'identityNullifier'],
+    publicSignals: ['nullifier', 'externalNullifier', 'identityCommitment', 'checkInDigest']
+  },
+  age_verification: {
+    publicInputs: ['minAge'],
+    privateInputs: ['age', 'salt'],
+    publicSignals: ['ageCommitment', 'minAge']
+  },
+  uniqueness: {
+    publicInputs: ['scope'],
+    privateInputs: ['secret'],
+    publicSignals: ['commitment', 'nullifier', 'scope']
+  },
+  co_presence: {
+    publicInputs: ['sessionId', 'peerNullifier', 'identityCommitment'],
+    privateInputs: ['identityTrapdoor', 'identityNullifier'],
+    publicSignals: ['nullifier', 'pairId', 'sessionId', 'peerNullifier', 'identityCommitment']
+  }
+} as const;
+
+export type CircuitName = keyof typeof CIRCUIT_SIGNALS;
+
+type Layout<C extends CircuitName> = (typeof CIRCUIT_SIGNALS)[C];
+
+// Witness inputs as decimal strings (or numbers for small values)
+export type CircuitInput<C extends CircuitName> = Record<
+  Layout<C>['publicInputs'][number] | Layout<C>['privateInputs'][number],
+  string | number
+>;
+
+export type CircuitPublicSignals<C extends CircuitName> = Record<Layout<C>['publicSignals'][number], string>;
+
+export const isCircuitName = (value: unknown): value is CircuitName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CIRCUIT_SIGNALS, value);
+
+// Name a proof's public signals using the circuit's layout
+export const toNamedSignals = <C extends CircuitName>(circuit: C, publicSignals: string[]): CircuitPublicSignals<C> => {
+  const names: readonly string[] = CIRCUIT_SIGNALS[circuit].publicSignals;
+  if (publicSignals.length !== names.length) {
+    throw new Error(`${circuit} expects ${names.length} public signals, got ${publicSignals.length}`);
+  }
+  return Object.fromEntries(names.map((name, i) => [name, publicSignals[i]])) as CircuitPublicSignals<C>;
+};
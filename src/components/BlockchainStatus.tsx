@@ -3,12 +3,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Wallet, Link, ExternalLink, Shield, Activity } from 'lucide-react';
-import { useZKIdentity } from '@/hooks/useZKIdentity';
+import { useZKIdentity, selectWallet } from '@/hooks/useZKIdentity';
 import { BlockchainManager } from '@/lib/blockchain';
 import deploymentInfo from '@/contracts/deployment.json';
 
 export default function BlockchainStatus() {
-  const { walletConnected, connectWallet, getBlockchainStats } = useZKIdentity();
+  const { walletConnected, connectWallet, getBlockchainStats } = useZKIdentity(selectWallet);
   const [address, setAddress] = useState<string | null>(null);
   const [stats, setStats] = useState({ totalOnChainProofs: 0, userOnChainProofs: 0 });
 
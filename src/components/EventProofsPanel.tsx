@@ -0,0 +1,128 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useNavigate } from "react-router-dom";
+import { ExternalLink, Link, Loader2, QrCode, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useEventProofs, useEventRegistration, useRegisterEventOnChain } from "@/hooks/useOrganizer";
+import type { CatalogEvent } from "@/lib/events";
+import deploymentInfo from "@/contracts/deployment.json";
+
+interface EventProofsPanelProps {
+  event: CatalogEvent;
+  walletConnected: boolean;
+  isOwner: boolean;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function EventProofsPanel({ event, walletConnected, isOwner }: EventProofsPanelProps) {
+  const { data: registered, isLoading: checkingRegistration } = useEventRegistration(event.id, walletConnected);
+  const { data: proofs = [], isLoading, isFetching, isError, error, refetch } = useEventProofs(event.id, walletConnected);
+  const registerOnChain = useRegisterEventOnChain();
+  const navigate = useNavigate();
+
+  const handleRegister = async () => {
+    try {
+      const txHash = await registerOnChain.mutateAsync(event);
+      toast.success("Event registered on-chain", { description: txHash });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to register event");
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{event.name}</CardTitle>
+          {walletConnected && !checkingRegistration && (
+            <Badge variant={registered ? 'default' : 'secondary'}>
+              {registered ? 'On-chain' : 'Not registered'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button size="sm" variant="outline" onClick={() => navigate(`/organizer/kiosk/${event.id}`)}>
+          <QrCode className="w-4 h-4 mr-2" />
+          Open Check-in Kiosk
+        </Button>
+
+        {!walletConnected ? (
+          <p className="text-sm text-muted-foreground">Connect your wallet to read proofs from the registry.</p>
+        ) : (
+          <>
+            {registered === false && isOwner && (
+              <Button size="sm" onClick={handleRegister} disabled={registerOnChain.isPending}>
+                {registerOnChain.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Link className="w-4 h-4 mr-2" />
+                )}
+                Register On-chain
+              </Button>
+            )}
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                {proofs.length} proof{proofs.length === 1 ? '' : 's'} submitted
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+
+            {isLoading && <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />}
+
+            {isError && (
+              <p className="text-sm text-destructive">
+                {error instanceof Error ? error.message : 'Failed to load proofs'}
+              </p>
+            )}
+
+            {proofs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Submitter</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>NFT</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {proofs.map(proof => (
+                    <TableRow key={proof.proofId}>
+                      <TableCell>{proof.proofId}</TableCell>
+                      <TableCell>
+                        <a
+                          href={`${deploymentInfo.explorerUrl}/address/${proof.submitter}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 font-mono text-xs hover:underline"
+                        >
+                          {shortAddress(proof.submitter)}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-xs">{new Date(proof.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {proof.isValid ? (
+                          proof.nftTokenId !== '0' ? `#${proof.nftTokenId}` : '—'
+                        ) : (
+                          <Badge variant="destructive">Invalid</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import QRCode from 'qrcode';
 import { GroupSessionCreator } from '@/components/GroupSessionCreator';
 import { GroupSessionScanner } from '@/components/GroupSessionScanner';
 import { useGroupSession } from '@/hooks/useGroupSession';
+import type { GroupAuditEntry } from '@/lib/groupProofs';
 import { 
   Users, 
   Clock, 
@@ -17,7 +18,15 @@ import {
   RefreshCw,
   LogOut,
   Copy,
-  CheckCircle2
+  CheckCircle2,
+  ShieldOff,
+  Lock,
+  LockOpen,
+  UserMinus,
+  UserCheck,
+  UserX,
+  History,
+  Hourglass
 } from 'lucide-react';
 
 interface GroupSessionProps {
@@ -28,6 +37,24 @@ interface GroupSessionProps {
 
 type ViewMode = 'list' | 'create' | 'scan' | 'active';
 
+const describeAuditEntry = (entry: GroupAuditEntry) => {
+  const name = entry.subjectUsername || 'A participant';
+  switch (entry.action) {
+    case 'session_created': return 'Session created';
+    case 'join_requested': return `${name} asked to join`;
+    case 'join_cancelled': return `${name} withdrew their request`;
+    case 'join_approved': return `${name} was approved by the host`;
+    case 'join_rejected': return `${name} was declined by the host`;
+    case 'participant_joined': return `${name} joined`;
+    case 'participant_left': return `${name} left`;
+    case 'participant_removed': return `${name} was removed by the host`;
+    case 'session_locked': return 'Session locked';
+    case 'session_unlocked': return 'Session unlocked';
+    case 'invitations_revoked': return 'Invitations revoked';
+    case 'status_changed': return `Status changed to ${entry.detail}`;
+  }
+};
+
 export function GroupSession({
   eventId,
   eventName,
@@ -35,6 +62,7 @@ export function GroupSession({
 }: GroupSessionProps) {
   const {
     currentSession,
+    membership,
     userSessions,
     groupProofs,
     currentUser,
@@ -46,13 +74,23 @@ export function GroupSession({
     generateGroupProof,
     leaveSession,
     refreshSession,
-    getQRData
+    getQRData,
+    revokeInvitations,
+    approveJoinRequest,
+    rejectJoinRequest,
+    removeParticipant,
+    toggleSessionLock
   } = useGroupSession();
 
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [timeLeft, setTimeLeft] = useState(0);
   const [copied, setCopied] = useState(false);
   const [qrCodeUrl, setQrCodeUrl] = useState('');
+  // Bumped after revoking so the QR code carries a token under the new key
+  const [inviteVersion, setInviteVersion] = useState(0);
+  const [isRevoking, setIsRevoking] = useState(false);
+  // Request or participant id the host is currently acting on
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
 
   // Update countdown timer
   useEffect(() => {
@@ -68,14 +106,6 @@ export function GroupSession({
     }
   }, [currentSession]);
 
-  // Auto-refresh session
-  useEffect(() => {
-    if (currentSession) {
-      const interval = setInterval(refreshSession, 5000); // Refresh every 5 seconds
-      return () => clearInterval(interval);
-    }
-  }, [currentSession, refreshSession]);
-
   // Set active view when session exists
   useEffect(() => {
     if (currentSession && viewMode !== 'active') {
@@ -85,14 +115,14 @@ export function GroupSession({
     }
   }, [currentSession, viewMode]);
 
-  const isHost = currentSession?.hostUserId === currentUser.id;
+  const isHost = currentSession?.hostUserId === currentUser?.id;
 
-  // Generate QR code when session is available
+  // Generate an invitation QR code when session is available
   useEffect(() => {
     if (currentSession && isHost) {
       const generateQR = async () => {
         try {
-          const qrData = getQRData(currentSession);
+          const qrData = await getQRData(currentSession);
           const qrCodeDataUrl = await QRCode.toDataURL(qrData, {
             errorCorrectionLevel: 'M',
             margin: 1,
@@ -109,7 +139,7 @@ export function GroupSession({
       };
       generateQR();
     }
-  }, [currentSession, isHost, getQRData]);
+  }, [currentSession, isHost, getQRData, inviteVersion]);
 
   const handleCreateSession = async () => {
     if (!eventId || !eventName) return;
@@ -127,6 +157,21 @@ export function GroupSession({
     }
   };
 
+  const handleRevokeInvitations = async () => {
+    setIsRevoking(true);
+    setQrCodeUrl('');
+    if (await revokeInvitations()) {
+      setInviteVersion(version => version + 1);
+    }
+    setIsRevoking(false);
+  };
+
+  const moderate = async (id: string, action: () => Promise<boolean>) => {
+    setModeratingId(id);
+    await action();
+    setModeratingId(null);
+  };
+
   const handleGenerateProof = async () => {
     const proof = await generateGroupProof();
     if (proof && onGroupProofGenerated) {
@@ -148,9 +193,15 @@ export function GroupSession({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const canGenerateProof = currentSession && 
-    currentSession.participants.length >= currentSession.minParticipants &&
-    (isHost || currentSession.status === 'active');
+  const hasEnoughParticipants = !!currentSession &&
+    currentSession.participants.length >= currentSession.minParticipants;
+  // The host finalizes the roster server-side, so only they can generate the proof
+  const canGenerateProof = isHost && hasEnoughParticipants;
+
+  const pendingRequests = currentSession?.joinRequests.filter(r => r.status === 'pending') ?? [];
+  // Membership is frozen once the group proof exists
+  const canModerate = isHost && !isGeneratingProof &&
+    (currentSession?.status === 'waiting' || currentSession?.status === 'active');
 
   // List/Overview Mode
   if (viewMode === 'list') {
@@ -248,6 +299,38 @@ export function GroupSession({
     );
   }
 
+  // Waiting on, or turned away by, the host
+  if (viewMode === 'active' && currentSession && membership !== 'member') {
+    return (
+      <Card className="w-full max-w-md mx-auto shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {membership === 'pending' ? (
+              <Hourglass className="w-5 h-5 text-warning" />
+            ) : (
+              <UserX className="w-5 h-5 text-destructive" />
+            )}
+            {currentSession.eventName}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {membership === 'pending' && 'Your request to join was sent. You will be added once the host approves it.'}
+            {membership === 'rejected' && 'The host declined your request to join this session.'}
+            {membership === 'removed' && 'The host removed you from this session.'}
+          </p>
+          <Button
+            variant="outline"
+            onClick={leaveSession}
+            className="w-full"
+          >
+            {membership === 'pending' ? 'Cancel Request' : 'Dismiss'}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Active Session Mode
   if (viewMode === 'active' && currentSession) {
     return (
@@ -275,12 +358,20 @@ export function GroupSession({
                   )}
                 </div>
               </div>
-              <Badge
-                variant={currentSession.status === 'active' ? 'default' : 'secondary'}
-                className={currentSession.status === 'active' ? 'bg-success text-success-foreground' : ''}
-              >
-                {currentSession.status}
-              </Badge>
+              <div className="flex items-center gap-2">
+                {currentSession.locked && (
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    <Lock className="w-3 h-3" />
+                    locked
+                  </Badge>
+                )}
+                <Badge
+                  variant={currentSession.status === 'active' ? 'default' : 'secondary'}
+                  className={currentSession.status === 'active' ? 'bg-success text-success-foreground' : ''}
+                >
+                  {currentSession.status}
+                </Badge>
+              </div>
             </div>
           </CardHeader>
           
@@ -318,6 +409,22 @@ export function GroupSession({
                 <RefreshCw className="w-3 h-3 mr-1" />
                 Refresh
               </Button>
+              {isHost && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => moderate('lock', toggleSessionLock)}
+                  disabled={!canModerate || moderatingId === 'lock'}
+                  className="flex-1"
+                >
+                  {currentSession.locked ? (
+                    <LockOpen className="w-3 h-3 mr-1" />
+                  ) : (
+                    <Lock className="w-3 h-3 mr-1" />
+                  )}
+                  {currentSession.locked ? 'Unlock' : 'Lock'}
+                </Button>
+              )}
               <Button
                 size="sm"
                 variant="outline"
@@ -337,7 +444,9 @@ export function GroupSession({
             <CardHeader>
               <CardTitle className="text-lg">Share Session</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Others can scan this QR code to join
+                {currentSession.locked
+                  ? 'The session is locked. Unlock it to accept new participants.'
+                  : 'Others can scan this invite code to ask to join. Anyone holding it can ask, so revoke it if it leaks.'}
               </p>
             </CardHeader>
             <CardContent>
@@ -356,6 +465,66 @@ export function GroupSession({
                   </div>
                 )}
               </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleRevokeInvitations}
+                disabled={isRevoking}
+                className="w-full mt-4 hover:bg-destructive/10 hover:border-destructive/30"
+              >
+                <ShieldOff className="w-3 h-3 mr-1" />
+                {isRevoking ? 'Revoking...' : 'Revoke Invitations'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Join Requests */}
+        {isHost && pendingRequests.length > 0 && (
+          <Card className="shadow-card border-warning/20">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Join Requests</span>
+                <Badge variant="secondary">{pendingRequests.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {pendingRequests.map((request) => (
+                  <div
+                    key={request.id}
+                    className="flex items-center justify-between p-3 bg-muted/30 rounded-lg border border-border/50"
+                  >
+                    <div>
+                      <p className="font-medium">{request.username}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Requested {new Date(request.requestedAt).toLocaleTimeString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderate(request.id, () => rejectJoinRequest(request.id))}
+                        disabled={!canModerate || moderatingId === request.id}
+                        className="h-8 hover:bg-destructive/10 hover:border-destructive/30"
+                      >
+                        <UserX className="w-3 h-3 mr-1" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => moderate(request.id, () => approveJoinRequest(request.id))}
+                        disabled={!canModerate || currentSession.locked || moderatingId === request.id}
+                        className="h-8"
+                      >
+                        <UserCheck className="w-3 h-3 mr-1" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </CardContent>
           </Card>
         )}
@@ -393,9 +562,21 @@ export function GroupSession({
                     {participant.isHost && (
                       <Crown className="w-4 h-4 text-warning" />
                     )}
-                    {participant.userId === currentUser.id && (
+                    {participant.userId === currentUser?.id && (
                       <Badge variant="outline" className="text-xs">You</Badge>
                     )}
+                    {canModerate && !participant.isHost && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => moderate(participant.userId, () => removeParticipant(participant.userId))}
+                        disabled={moderatingId === participant.userId}
+                        className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                        aria-label={`Remove ${participant.username}`}
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -428,8 +609,20 @@ export function GroupSession({
           </Card>
         )}
 
+        {!isHost && hasEnoughParticipants && (
+          <Card className="shadow-card border-primary/20">
+            <CardContent className="p-4 text-center">
+              <Crown className="w-8 h-8 text-warning mx-auto mb-2" />
+              <h3 className="font-semibold">Waiting for the Host</h3>
+              <p className="text-sm text-muted-foreground">
+                The host will lock the session and generate the group proof
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Waiting Message */}
-        {!canGenerateProof && currentSession.participants.length < currentSession.minParticipants && (
+        {!hasEnoughParticipants && (
           <Card className="shadow-card border-warning/20">
             <CardContent className="p-4 text-center">
               <UserPlus className="w-8 h-8 text-warning mx-auto mb-2" />
@@ -440,6 +633,30 @@ export function GroupSession({
             </CardContent>
           </Card>
         )}
+
+        {/* Audit Trail */}
+        {currentSession.auditTrail.length > 0 && (
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <History className="w-4 h-4 text-primary" />
+                Activity
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {[...currentSession.auditTrail].reverse().map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between text-sm">
+                    <span>{describeAuditEntry(entry)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     );
   }
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { QRCodeScanner } from '@/components/QRCodeScanner';
+import { GroupProofManager } from '@/lib/groupProofs';
 import { Badge } from '@/components/ui/badge';
 import { Users, Clock, MapPin, QrCode } from 'lucide-react';
 
@@ -28,21 +29,23 @@ export function GroupSessionScanner({
   const [qrData, setQrData] = useState<string>('');
 
   const handleQRScan = (data: string) => {
-    try {
-      const parsed = JSON.parse(data);
-      if (parsed.type === 'group_session') {
-        setQrData(data);
-        setSessionInfo({
-          eventName: parsed.eventName,
-          hostUsername: parsed.hostUsername,
-          participantCount: parsed.participantCount,
-          maxParticipants: parsed.maxParticipants,
-          expiresAt: parsed.expiresAt
-        });
-      }
-    } catch (error) {
-      console.error('Invalid QR code:', error);
+    const invitation = GroupProofManager.parseQRData(data);
+    if (!invitation) {
+      console.error('Invalid group session invitation');
+      return;
     }
+
+    setQrData(data);
+    setSessionInfo({
+      eventName: invitation.eventName,
+      hostUsername: invitation.hostUsername,
+      participantCount: invitation.participantCount,
+      // The invitation's own cap applies when it is tighter than the session's
+      maxParticipants: invitation.maxParticipants > 0
+        ? Math.min(invitation.maxParticipants, invitation.sessionMaxParticipants)
+        : invitation.sessionMaxParticipants,
+      expiresAt: invitation.expiresAt
+    });
   };
 
   const handleJoin = () => {
@@ -70,10 +73,7 @@ export function GroupSessionScanner({
           
           <CardContent className="space-y-4">
             <div className="aspect-square w-full max-w-64 mx-auto border-2 border-dashed border-border rounded-lg overflow-hidden">
-              <QRCodeScanner 
-                onClose={() => {}}
-                onProofGenerated={() => {}}
-              />
+              <QRCodeScanner onGroupInvitation={handleQRScan} />
             </div>
             
             <div className="text-center">
@@ -132,7 +132,7 @@ export function GroupSessionScanner({
               {timeUntilExpiry <= 0 && (
                 <div className="bg-destructive/10 border border-destructive/20 p-3 rounded-lg">
                   <p className="text-sm text-destructive font-medium">
-                    ⚠️ This session has expired
+                    ⚠️ This invitation has expired
                   </p>
                 </div>
               )}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Shield, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
 import { MoProIntegration } from "@/lib/moproIntegration";
 import { SecureWallet } from "@/lib/secureWallet";
+import { ZKIdentityManager } from "@/lib/zkIdentity";
 import { toast } from "sonner";
 
 interface OnboardingFlowProps {
@@ -21,10 +22,11 @@ interface CredentialRequest {
 }
 
 export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
-  const [currentStep, setCurrentStep] = useState(0);
+  // A wallet unlocked at sign up already opened the secure wallet
+  const [currentStep, setCurrentStep] = useState(() => SecureWallet.isUnlocked() ? 1 : 0);
   const [loading, setLoading] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
   const [age, setAge] = useState("");
-  const [userSecret, setUserSecret] = useState("");
   const [ticketCode, setTicketCode] = useState("");
   const [credentials, setCredentials] = useState<CredentialRequest[]>([
     { type: 'age', data: null, completed: false },
@@ -33,6 +35,15 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
   ]);
   const [moProAvailable, setMoProAvailable] = useState(false);
 
+  useEffect(() => {
+    const available = MoProIntegration.isMoProAvailable();
+    setMoProAvailable(available);
+    if (!available) {
+      toast.info("MoPro SDK not available. Using the in-browser prover.");
+    }
+    MoProIntegration.initialize();
+  }, []);
+
   const steps = [
     "Initialize Wallet",
     "Age Verification", 
@@ -42,24 +53,20 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
   ];
 
   const initializeWallet = async () => {
+    if (passphrase.length < 8) {
+      toast.error("Password must be at least 8 characters");
+      return;
+    }
+
     setLoading(true);
     try {
-      // Check MoPro availability
-      const available = MoProIntegration.isMoProAvailable();
-      setMoProAvailable(available);
-
-      if (!available) {
-        toast.error("MoPro SDK not available. Using fallback mode.");
-      }
-
-      // Initialize MoPro and secure wallet
-      await MoProIntegration.initialize();
-      await SecureWallet.initializeWallet();
+      await SecureWallet.initializeWallet(passphrase);
+      setPassphrase("");
 
       toast.success("Secure wallet initialized!");
       setCurrentStep(1);
     } catch (error) {
-      toast.error("Failed to initialize wallet");
+      toast.error(error instanceof Error ? error.message : "Failed to initialize wallet");
       console.error(error);
     } finally {
       setLoading(false);
@@ -74,25 +81,19 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
 
     setLoading(true);
     try {
-      if (moProAvailable) {
-        const credential = await MoProIntegration.generateAgeCredential(parseInt(age));
-        if (credential) {
-          SecureWallet.addCredential(credential);
-          toast.success("Age credential generated!");
-        } else {
-          throw new Error("Failed to generate age credential");
-        }
-      } else {
-        // Mock credential for fallback
-        toast.success("Age verified (fallback mode)");
+      const credential = await MoProIntegration.generateAgeCredential(parseInt(age));
+      if (!credential) {
+        throw new Error("Failed to generate age credential");
       }
+      await SecureWallet.addCredential(credential);
+      toast.success("Age credential generated!");
 
       const updatedCredentials = [...credentials];
       updatedCredentials[0] = { type: 'age', data: { age }, completed: true };
       setCredentials(updatedCredentials);
       setCurrentStep(2);
     } catch (error) {
-      toast.error("Failed to generate age credential");
+      toast.error(error instanceof Error ? error.message : "Failed to generate age credential");
       console.error(error);
     } finally {
       setLoading(false);
@@ -100,31 +101,22 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
   };
 
   const generateUniquenessCredential = async () => {
-    if (!userSecret || userSecret.length < 8) {
-      toast.error("Secret must be at least 8 characters");
-      return;
-    }
-
     setLoading(true);
     try {
-      if (moProAvailable) {
-        const credential = await MoProIntegration.generateUniquenessCredential(userSecret);
-        if (credential) {
-          SecureWallet.addCredential(credential);
-          toast.success("Uniqueness credential generated!");
-        } else {
-          throw new Error("Failed to generate uniqueness credential");
-        }
-      } else {
-        toast.success("Uniqueness verified (fallback mode)");
+      const identity = await ZKIdentityManager.getOrCreateIdentity();
+      const credential = await MoProIntegration.generateUniquenessCredential(identity.nullifier);
+      if (!credential) {
+        throw new Error("Failed to generate uniqueness credential");
       }
+      await SecureWallet.addCredential(credential);
+      toast.success("Uniqueness credential generated!");
 
       const updatedCredentials = [...credentials];
-      updatedCredentials[1] = { type: 'uniqueness', data: { secret: userSecret }, completed: true };
+      updatedCredentials[1] = { type: 'uniqueness', data: { nullifier: credential.metadata.nullifier }, completed: true };
       setCredentials(updatedCredentials);
       setCurrentStep(3);
     } catch (error) {
-      toast.error("Failed to generate uniqueness credential");
+      toast.error(error instanceof Error ? error.message : "Failed to generate uniqueness credential");
       console.error(error);
     } finally {
       setLoading(false);
@@ -139,28 +131,20 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
 
     setLoading(true);
     try {
-      if (moProAvailable) {
-        const credential = await MoProIntegration.generateEventCredential(
-          `ticket_${ticketCode}`,
-          "Onboarding Ticket",
-          "Digital Wallet"
-        );
-        if (credential) {
-          SecureWallet.addCredential(credential);
-          toast.success("Ticket credential generated!");
-        } else {
-          throw new Error("Failed to generate ticket credential");
-        }
-      } else {
-        toast.success("Ticket verified (fallback mode)");
-      }
+      // Stored with the identity's other credentials and added to the secure wallet
+      await ZKIdentityManager.generateEventCredential(
+        `ticket_${ticketCode}`,
+        "Onboarding Ticket",
+        { location: "Digital Wallet" }
+      );
+      toast.success("Ticket credential generated!");
 
       const updatedCredentials = [...credentials];
       updatedCredentials[2] = { type: 'ticket', data: { code: ticketCode }, completed: true };
       setCredentials(updatedCredentials);
       setCurrentStep(4);
     } catch (error) {
-      toast.error("Failed to generate ticket credential");
+      toast.error(error instanceof Error ? error.message : "Failed to generate ticket credential");
       console.error(error);
     } finally {
       setLoading(false);
@@ -191,7 +175,7 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
           {!moProAvailable && (
             <div className="flex items-center gap-2 text-sm text-amber-600 bg-amber-50 p-2 rounded-lg">
               <AlertCircle className="w-4 h-4" />
-              MoPro SDK not available - using fallback mode
+              MoPro SDK not available - proving in the browser
             </div>
           )}
         </CardHeader>
@@ -203,9 +187,23 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
               <p className="text-muted-foreground">
                 Setting up your secure ZK identity wallet with MoPro integration
               </p>
+              <div className="space-y-2 text-left">
+                <Label htmlFor="passphrase">Wallet Password</Label>
+                <Input
+                  id="passphrase"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  minLength={8}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Your credentials are encrypted on this device with your wallet password
+                </p>
+              </div>
               <Button 
                 onClick={initializeWallet}
-                disabled={loading}
+                disabled={loading || !passphrase}
                 className="w-full"
                 variant="gradient"
               >
@@ -258,23 +256,13 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
           {/* Step 2: Uniqueness Proof */}
           {currentStep === 2 && (
             <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="secret">Uniqueness Secret</Label>
-                <Input
-                  id="secret"
-                  type="password"
-                  placeholder="Enter a unique secret (min 8 chars)"
-                  value={userSecret}
-                  onChange={(e) => setUserSecret(e.target.value)}
-                  minLength={8}
-                />
-                <p className="text-xs text-muted-foreground">
-                  This proves you're a unique person without revealing identity
-                </p>
-              </div>
+              <p className="text-sm text-muted-foreground">
+                This proves you're a unique person without revealing identity. The proof is
+                derived from your ZK identity, so each identity can only produce one.
+              </p>
               <Button 
                 onClick={generateUniquenessCredential}
-                disabled={loading || !userSecret}
+                disabled={loading}
                 className="w-full"
               >
                 {loading ? (
@@ -350,6 +338,12 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
               </Button>
             </div>
           )}
+
+          {currentStep < 4 && (
+            <Button onClick={onComplete} variant="ghost" className="w-full" disabled={loading}>
+              Skip for now
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
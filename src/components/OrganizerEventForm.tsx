@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import type { NewEventInput } from "@/lib/events";
+
+interface OrganizerEventFormProps {
+  defaultOrganizer: string;
+  // App wallet that will sign check-in codes for the event
+  organizerAddress: string | null;
+  submitting: boolean;
+  // Resolves true once the event row exists, so the form can reset
+  onSubmit: (input: NewEventInput) => Promise<boolean>;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  image: "",
+  location: "",
+  category: "Meetup",
+  startsAt: "",
+  endsAt: "",
+  requiresProof: true
+};
+
+export function OrganizerEventForm({ defaultOrganizer, organizerAddress, submitting, onSubmit }: OrganizerEventFormProps) {
+  const [form, setForm] = useState(emptyForm);
+
+  const update = <K extends keyof typeof emptyForm>(key: K, value: typeof emptyForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const canSubmit = form.name.trim() && form.location.trim() && form.startsAt && form.endsAt;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    // datetime-local values are interpreted in the organizer's timezone
+    const created = await onSubmit({
+      name: form.name.trim(),
+      description: form.description.trim(),
+      location: form.location.trim(),
+      category: form.category.trim() || emptyForm.category,
+      startsAt: new Date(form.startsAt),
+      endsAt: new Date(form.endsAt),
+      organizer: defaultOrganizer,
+      organizerAddress,
+      requiresProof: form.requiresProof,
+      image: form.image.trim() || null
+    });
+    if (created) setForm(emptyForm);
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarPlus className="w-5 h-5 text-primary" />
+          Create Event
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="eventName">Name</Label>
+            <Input id="eventName" value={form.name} onChange={(e) => update('name', e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="eventDescription">Description</Label>
+            <Textarea
+              id="eventDescription"
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="eventImage">Image URI</Label>
+            <Input
+              id="eventImage"
+              placeholder="ipfs://... or https://..."
+              value={form.image}
+              onChange={(e) => update('image', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="eventLocation">Location</Label>
+              <Input
+                id="eventLocation"
+                value={form.location}
+                onChange={(e) => update('location', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eventCategory">Category</Label>
+              <Input
+                id="eventCategory"
+                value={form.category}
+                onChange={(e) => update('category', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="eventStart">Starts</Label>
+              <Input
+                id="eventStart"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => update('startsAt', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eventEnd">Ends</Label>
+              <Input
+                id="eventEnd"
+                type="datetime-local"
+                min={form.startsAt}
+                value={form.endsAt}
+                onChange={(e) => update('endsAt', e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="eventRequiresProof">Require ZK proof of attendance</Label>
+            <Switch
+              id="eventRequiresProof"
+              checked={form.requiresProof}
+              onCheckedChange={(checked) => update('requiresProof', checked)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={!canSubmit || submitting}>
+            {submitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              'Create and Register Event'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,39 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import QRCode from 'qrcode';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { useZKIdentity } from '@/hooks/useZKIdentity';
-import { RefreshCw, Copy } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useZKIdentity, selectIdentity } from '@/hooks/useZKIdentity';
+import { QRCodeScanner } from '@/components/QRCodeScanner';
+import { CoPresenceManager, type CoPresenceOffer } from '@/lib/coPresence';
+import { PROXIMITY_WINDOW_SECONDS } from '@/lib/proximityQR';
+import { Copy, ScanLine } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface QRCodeGeneratorProps {
   onClose?: () => void;
 }
 
+// Initiator side of the co-presence handshake: show an offer, scan the reply, show the confirmation
+type HandshakeStage = 'offer' | 'scanning' | 'confirmation';
+
 export function QRCodeGenerator({ onClose }: QRCodeGeneratorProps) {
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
-  const [ephemeralId, setEphemeralId] = useState<string>('');
-  const { identity } = useZKIdentity();
+  // Newest first; the previous window's offer is kept for replies started before a rotation
+  const [offers, setOffers] = useState<CoPresenceOffer[]>([]);
+  const [stage, setStage] = useState<HandshakeStage>('offer');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const identity = useZKIdentity(selectIdentity);
   const { toast } = useToast();
+  const username = `User-${identity?.identityCommitment?.slice(0, 8) || 'anon'}`;
+  const offer = offers[0] ?? null;
 
-  const generateEphemeralId = () => {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-  };
-
-  const generateQRCode = async () => {
-    const newEphemeralId = generateEphemeralId();
-    setEphemeralId(newEphemeralId);
-    
-    const qrData = {
-      type: 'zk-proximity',
-      userId: identity?.identityCommitment || 'anonymous',
-      ephemeralId: newEphemeralId,
-      timestamp: Date.now(),
-      username: `User-${identity?.identityCommitment?.slice(0, 8) || 'anon'}`
-    };
-
+  const showQRCode = useCallback(async (data: string) => {
     try {
-      const qrCodeDataUrl = await QRCode.toDataURL(JSON.stringify(qrData), {
+      const qrCodeDataUrl = await QRCode.toDataURL(data, {
         errorCorrectionLevel: 'M',
         margin: 1,
         color: {
@@ -50,26 +47,71 @@ export function QRCodeGenerator({ onClose }: QRCodeGeneratorProps) {
         description: "Failed to generate QR code. Please try again.",
       });
     }
+  }, [toast]);
+
+  // A new code for the current time window
+  const rotate = useCallback(async () => {
+    const newOffer = await CoPresenceManager.createOffer(username);
+    setOffers(prev => [newOffer, ...prev].slice(0, 2));
+    await showQRCode(CoPresenceManager.encodeOffer(newOffer));
+  }, [username, showQRCode]);
+
+  useEffect(() => {
+    if (stage === 'offer') {
+      rotate();
+    }
+  }, [stage, rotate]);
+
+  // Count down to the end of the window, then rotate
+  useEffect(() => {
+    if (stage !== 'offer' || !offer) return;
+    const tick = () => {
+      const remaining = Math.ceil(offer.payload.expiresAt - Date.now() / 1000);
+      setSecondsLeft(Math.max(remaining, 0));
+      if (remaining <= 0) {
+        clearInterval(interval);
+        rotate();
+      }
+    };
+    const interval = setInterval(tick, 250);
+    tick();
+    return () => clearInterval(interval);
+  }, [stage, offer, rotate]);
+
+  const handleReplyConfirmed = async (confirmation: string) => {
+    setStage('confirmation');
+    await showQRCode(confirmation);
   };
 
   const copyEphemeralId = () => {
-    navigator.clipboard.writeText(ephemeralId);
+    if (!offer) return;
+    navigator.clipboard.writeText(offer.payload.ephemeralId);
     toast({
       title: "Copied!",
       description: "Ephemeral ID copied to clipboard",
     });
   };
 
-  useEffect(() => {
-    generateQRCode();
-  }, []);
+  if (stage === 'scanning' && offer) {
+    return (
+      <QRCodeScanner
+        coPresenceOffers={offers}
+        onCoPresenceConfirmed={handleReplyConfirmed}
+        onClose={() => setStage('offer')}
+      />
+    );
+  }
 
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
-        <CardTitle className="text-center">Share Your QR Code</CardTitle>
+        <CardTitle className="text-center">
+          {stage === 'confirmation' ? 'Show Confirmation' : 'Share Your QR Code'}
+        </CardTitle>
         <p className="text-sm text-muted-foreground text-center">
-          Let others scan this to generate a co-presence proof
+          {stage === 'confirmation'
+            ? 'Let them scan this to finish the co-presence proof'
+            : 'Let others scan this, then scan the reply they show you'}
         </p>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -83,33 +125,46 @@ export function QRCodeGenerator({ onClose }: QRCodeGeneratorProps) {
           )}
         </div>
         
-        <div className="space-y-2">
-          <p className="text-xs text-muted-foreground">Ephemeral ID:</p>
-          <div className="flex items-center gap-2">
-            <code className="flex-1 bg-muted p-2 rounded text-xs break-all">
-              {ephemeralId}
-            </code>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={copyEphemeralId}
-            >
-              <Copy className="w-4 h-4" />
-            </Button>
+        {stage === 'offer' && offer && (
+          <div className="space-y-2">
+            <Progress value={(secondsLeft / PROXIMITY_WINDOW_SECONDS) * 100} />
+            <p className="text-sm text-center text-muted-foreground">
+              New code in {secondsLeft}s
+            </p>
           </div>
-        </div>
+        )}
+
+        {stage === 'offer' && offer && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Ephemeral ID:</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 bg-muted p-2 rounded text-xs break-all">
+                {offer.payload.ephemeralId}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={copyEphemeralId}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
 
         <div className="flex gap-2">
-          <Button
-            variant="outline"
-            onClick={generateQRCode}
-            className="flex-1"
-          >
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Refresh
-          </Button>
+          {stage === 'offer' && (
+            <Button
+              onClick={() => setStage('scanning')}
+              className="flex-1"
+              disabled={!offer}
+            >
+              <ScanLine className="w-4 h-4 mr-2" />
+              Scan Reply
+            </Button>
+          )}
           {onClose && (
-            <Button onClick={onClose} className="flex-1">
+            <Button onClick={onClose} variant={stage === 'offer' ? 'outline' : 'default'} className="flex-1">
               Done
             </Button>
           )}
@@ -117,4 +172,4 @@ export function QRCodeGenerator({ onClose }: QRCodeGeneratorProps) {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
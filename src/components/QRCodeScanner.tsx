@@ -1,31 +1,134 @@
 import React, { useEffect, useRef, useState } from 'react';
 import QrScanner from 'qr-scanner';
+import QRCode from 'qrcode';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useZKIdentity } from '@/hooks/useZKIdentity';
 import { Camera, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { CheckInManager } from '@/lib/checkIn';
+import { GroupProofManager } from '@/lib/groupProofs';
+import { CoPresenceManager, type CoPresenceOffer, type PendingCoPresence } from '@/lib/coPresence';
 
 interface QRCodeScannerProps {
   onClose?: () => void;
   onProofGenerated?: () => void;
+  // Only accept organizer check-in codes for this event
+  checkInEventId?: string;
+  // Initiator waiting for a reply to one of these offers
+  coPresenceOffers?: CoPresenceOffer[];
+  // Called with the confirmation QR the initiator shows next
+  onCoPresenceConfirmed?: (confirmation: string) => void;
+  // Only accept group session invitations, handing the raw code back
+  onGroupInvitation?: (qrData: string) => void;
 }
 
-interface QRData {
-  type: string;
-  userId: string;
-  ephemeralId: string;
-  timestamp: number;
-  username: string;
-}
-
-export function QRCodeScanner({ onClose, onProofGenerated }: QRCodeScannerProps) {
+export function QRCodeScanner({
+  onClose,
+  onProofGenerated,
+  checkInEventId,
+  coPresenceOffers,
+  onCoPresenceConfirmed,
+  onGroupInvitation
+}: QRCodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [scanner, setScanner] = useState<QrScanner | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
-  const { identity, generateCoPresenceProof } = useZKIdentity();
+  // Responder's signed reply, shown until the initiator scans it
+  const [replyQrUrl, setReplyQrUrl] = useState<string>('');
+  const { identity, saveCoPresenceProof, generateEventCredential } = useZKIdentity();
   const { toast } = useToast();
+  // The scanner keeps firing while a check-in is being verified
+  const processingRef = useRef(false);
+  // Read from the scanner callback, which outlives the render that created it
+  const pendingCoPresenceRef = useRef<PendingCoPresence | null>(null);
+
+  const handleCheckIn = async (qrScanner: QrScanner, data: unknown) => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+
+    let verified: Awaited<ReturnType<typeof CheckInManager.verifyScannedChallenge>>;
+    try {
+      verified = await CheckInManager.verifyScannedChallenge(data);
+      if (checkInEventId && verified.event.id !== checkInEventId) {
+        throw new Error('This check-in code is for a different event');
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Check-in Failed",
+        description: error instanceof Error ? error.message : "Unable to verify check-in code.",
+      });
+      processingRef.current = false;
+      return;
+    }
+
+    qrScanner.stop();
+    setIsScanning(false);
+
+    const { event, checkIn } = verified;
+    try {
+      // generateEventCredential reports its own errors
+      await generateEventCredential(event.id, event.name, {
+        location: event.location,
+        attendeeCount: event.attendeeCount
+      }, checkIn);
+      onProofGenerated?.();
+      onClose?.();
+    } catch (error) {
+      console.error('Failed to generate check-in credential:', error);
+    } finally {
+      processingRef.current = false;
+    }
+  };
+
+  const handleCoPresence = async (qrScanner: QrScanner, data: unknown) => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+
+    try {
+      if (coPresenceOffers) {
+        // Initiator: check the reply, countersign and hand back the confirmation
+        const { proof, reply } = await CoPresenceManager.confirm(coPresenceOffers, data, 'QR Code Scan');
+        qrScanner.stop();
+        setIsScanning(false);
+        await saveCoPresenceProof(proof);
+        onProofGenerated?.();
+        onCoPresenceConfirmed?.(reply);
+      } else if (pendingCoPresenceRef.current) {
+        // Responder: the initiator's countersignature completes the proof
+        const proof = CoPresenceManager.complete(pendingCoPresenceRef.current, data, 'QR Code Scan');
+        qrScanner.stop();
+        setIsScanning(false);
+        pendingCoPresenceRef.current = null;
+        setReplyQrUrl('');
+        await saveCoPresenceProof(proof);
+        onProofGenerated?.();
+        onClose?.();
+      } else {
+        // Responder: sign the offer and show the reply
+        const username = `User-${identity?.identityCommitment?.slice(0, 8) || 'anon'}`;
+        const { pending, reply } = await CoPresenceManager.respond(data, username);
+        qrScanner.stop();
+        setIsScanning(false);
+        pendingCoPresenceRef.current = pending;
+        setReplyQrUrl(await QRCode.toDataURL(reply, { errorCorrectionLevel: 'M', margin: 1, width: 256 }));
+        toast({
+          title: "QR Code Scanned! 📱",
+          description: `Show your reply to ${pending.usernameA}, then scan their confirmation`,
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Co-Presence Failed",
+        description: error instanceof Error ? error.message : "Unable to complete the handshake.",
+      });
+    } finally {
+      processingRef.current = false;
+    }
+  };
 
   const startScanning = async () => {
     if (!videoRef.current) return;
@@ -35,34 +138,37 @@ export function QRCodeScanner({ onClose, onProofGenerated }: QRCodeScannerProps)
         videoRef.current,
         async (result) => {
           try {
-            const qrData: QRData = JSON.parse(result.data);
-            
-            if (qrData.type === 'zk-proximity' && qrData.userId !== identity?.identityCommitment) {
-              // Generate co-presence proof
-              await generateCoPresenceProof(
-                identity?.identityCommitment || 'anonymous',
-                qrData.userId,
-                `User-${identity?.identityCommitment?.slice(0, 8) || 'anon'}`,
-                qrData.username,
-                qrData.ephemeralId,
-                'QR Code Scan'
-              );
-              
-              toast({
-                title: "QR Code Scanned! 📱",
-                description: `Co-presence proof generated with ${qrData.username}`,
-              });
-              
-              qrScanner.stop();
-              setIsScanning(false);
-              onProofGenerated?.();
-              onClose?.();
-            } else if (qrData.userId === identity?.identityCommitment) {
+            // Proximity codes use a compact non-JSON encoding
+            const qrData: unknown = CoPresenceManager.isOfferPayload(result.data)
+              ? result.data
+              : JSON.parse(result.data);
+
+            if (onGroupInvitation) {
+              if (GroupProofManager.parseQRData(result.data)) {
+                qrScanner.stop();
+                setIsScanning(false);
+                onGroupInvitation(result.data);
+              } else {
+                toast({
+                  variant: "destructive",
+                  title: "Not a Group Invitation",
+                  description: "Scan the QR code shown by the session host.",
+                });
+              }
+            } else if (CheckInManager.isCheckInPayload(qrData)) {
+              await handleCheckIn(qrScanner, qrData);
+            } else if (checkInEventId) {
               toast({
                 variant: "destructive",
-                title: "Cannot scan your own QR code",
-                description: "Please scan someone else's QR code to generate a proof.",
+                title: "Not a Check-in Code",
+                description: "Scan the QR code shown at the event's check-in kiosk.",
               });
+            } else if (
+              coPresenceOffers ? CoPresenceManager.isResponsePayload(qrData)
+                : pendingCoPresenceRef.current ? CoPresenceManager.isConfirmationPayload(qrData)
+                : CoPresenceManager.isOfferPayload(qrData)
+            ) {
+              await handleCoPresence(qrScanner, qrData);
             } else {
               toast({
                 variant: "destructive",
@@ -109,6 +215,12 @@ export function QRCodeScanner({ onClose, onProofGenerated }: QRCodeScannerProps)
     setIsScanning(false);
   };
 
+  // Responder: once the reply has been scanned, wait for the initiator's confirmation
+  const scanConfirmation = () => {
+    stopScanning();
+    startScanning();
+  };
+
   useEffect(() => {
     return () => {
       stopScanning();
@@ -118,14 +230,28 @@ export function QRCodeScanner({ onClose, onProofGenerated }: QRCodeScannerProps)
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
-        <CardTitle className="text-center">Scan QR Code</CardTitle>
+        <CardTitle className="text-center">
+          {checkInEventId ? 'Event Check-in' : replyQrUrl && !isScanning ? 'Show Your Reply' : 'Scan QR Code'}
+        </CardTitle>
         <p className="text-sm text-muted-foreground text-center">
-          Point your camera at another user's QR code
+          {checkInEventId
+            ? "Point your camera at the QR code on the organizer's kiosk"
+            : coPresenceOffers
+              ? "Point your camera at the reply they are showing"
+              : replyQrUrl
+                ? "Let them scan your reply, then scan their confirmation"
+                : "Point your camera at another user's QR code"}
         </p>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="relative aspect-square bg-muted rounded-lg overflow-hidden">
-          {!isScanning && hasPermission !== false && (
+          {!isScanning && replyQrUrl && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white">
+              <img src={replyQrUrl} alt="Co-presence reply QR code" className="w-full h-full object-contain" />
+            </div>
+          )}
+
+          {!isScanning && !replyQrUrl && hasPermission !== false && (
             <div className="absolute inset-0 flex items-center justify-center">
               <Button onClick={startScanning}>
                 <Camera className="w-4 h-4 mr-2" />
@@ -154,6 +280,12 @@ export function QRCodeScanner({ onClose, onProofGenerated }: QRCodeScannerProps)
         </div>
 
         <div className="flex gap-2">
+          {!isScanning && replyQrUrl && (
+            <Button onClick={scanConfirmation} className="flex-1">
+              <Camera className="w-4 h-4 mr-2" />
+              Scan Confirmation
+            </Button>
+          )}
           {isScanning && (
             <Button
               variant="outline"
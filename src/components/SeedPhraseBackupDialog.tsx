@@ -0,0 +1,197 @@
+import { useState, useEffect, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, Loader2, ShieldCheck, TriangleAlert } from "lucide-react";
+import { getUnlockedWallet, lockWallet, markWalletBackedUp, unlockWallet } from "@/lib/wallet";
+import { toast } from "sonner";
+
+interface SeedPhraseBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBackedUp?: () => void;
+}
+
+type BackupStep = 'unlock' | 'reveal' | 'confirm' | 'done';
+
+// Number of words the user has to re-enter to prove they wrote the phrase down
+const CONFIRM_WORD_COUNT = 3;
+
+export function SeedPhraseBackupDialog({ open, onOpenChange, onBackedUp }: SeedPhraseBackupDialogProps) {
+  const [step, setStep] = useState<BackupStep>('unlock');
+  const [password, setPassword] = useState("");
+  const [words, setWords] = useState<string[]>([]);
+  const [confirmIndices, setConfirmIndices] = useState<number[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  // Only lock on close if this dialog was the one that unlocked the wallet
+  const unlockedHere = useRef(false);
+
+  // Never keep the phrase around once the dialog closes
+  useEffect(() => {
+    if (!open) {
+      setStep('unlock');
+      setPassword("");
+      setWords([]);
+      setConfirmIndices([]);
+      setAnswers({});
+      if (unlockedHere.current) {
+        lockWallet();
+        unlockedHere.current = false;
+      }
+    }
+  }, [open]);
+
+  const handleUnlock = async () => {
+    setLoading(true);
+    try {
+      const wasUnlocked = getUnlockedWallet() !== null;
+      const wallet = await unlockWallet(password);
+      unlockedHere.current = !wasUnlocked;
+      setWords(wallet.mnemonic.split(' '));
+      setPassword("");
+      setStep('reveal');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock wallet");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startConfirmation = () => {
+    const indices = new Set<number>();
+    const random = new Uint32Array(1);
+    while (indices.size < Math.min(CONFIRM_WORD_COUNT, words.length)) {
+      crypto.getRandomValues(random);
+      indices.add(random[0] % words.length);
+    }
+    setConfirmIndices(Array.from(indices).sort((a, b) => a - b));
+    setAnswers({});
+    setStep('confirm');
+  };
+
+  const handleConfirm = async () => {
+    const allCorrect = confirmIndices.every(
+      index => (answers[index] || '').trim().toLowerCase() === words[index]
+    );
+
+    if (!allCorrect) {
+      toast.error("Those words don't match. Check your backup and try again.");
+      return;
+    }
+
+    try {
+      await markWalletBackedUp();
+      setWords([]);
+      if (unlockedHere.current) {
+        lockWallet();
+        unlockedHere.current = false;
+      }
+      setStep('done');
+      onBackedUp?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save backup status");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Back Up Recovery Phrase</DialogTitle>
+          <DialogDescription>
+            These 12 words restore your wallet, ZK identity and credentials on any device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'unlock' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="backupPassword">Wallet Password</Label>
+              <Input
+                id="backupPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleUnlock} disabled={loading || !password} className="w-full">
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                <>
+                  <Eye className="w-4 h-4 mr-2" />
+                  Reveal Recovery Phrase
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {step === 'reveal' && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-2 text-sm text-warning bg-warning/10 p-3 rounded-lg">
+              <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              Write these words down in order and keep them offline. Anyone with them controls your wallet.
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {words.map((word, index) => (
+                <div key={index} className="p-2 bg-muted rounded-lg text-sm font-mono">
+                  <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                  {word}
+                </div>
+              ))}
+            </div>
+            <Button onClick={startConfirmation} className="w-full">
+              I've Written It Down
+            </Button>
+          </div>
+        )}
+
+        {step === 'confirm' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Enter the following words from your recovery phrase.
+            </p>
+            {confirmIndices.map(index => (
+              <div key={index} className="space-y-2">
+                <Label htmlFor={`word-${index}`}>Word #{index + 1}</Label>
+                <Input
+                  id={`word-${index}`}
+                  autoComplete="off"
+                  spellCheck={false}
+                  value={answers[index] || ''}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [index]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep('reveal')} className="flex-1">
+                Show Again
+              </Button>
+              <Button onClick={handleConfirm} className="flex-1">
+                Confirm
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4 text-center">
+            <ShieldCheck className="w-12 h-12 text-success mx-auto" />
+            <p className="text-sm text-muted-foreground">
+              Your recovery phrase is backed up. You can restore your wallet from it during sign up.
+            </p>
+            <Button onClick={() => onOpenChange(false)} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
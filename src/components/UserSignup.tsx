@@ -1,10 +1,22 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
-import { Wallet, Mail, Phone, User, ArrowRight } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Wallet, Mail, Phone, User, ArrowRight, Lock, KeyRound } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { getStoredWalletAddress, restoreWalletFromMnemonic } from "@/lib/wallet";
 import { toast } from "sonner";
 
 interface UserSignupProps {
@@ -15,23 +27,64 @@ export default function UserSignup({ onComplete }: UserSignupProps) {
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
   const [displayName, setDisplayName] = useState("");
+  const [walletPassword, setWalletPassword] = useState("");
+  const [restoreMode, setRestoreMode] = useState(false);
+  const [recoveryPhrase, setRecoveryPhrase] = useState("");
   const [loading, setLoading] = useState(false);
-  const { signUp } = useAuth();
+  // Set while the user decides whether to replace the wallet already on this device
+  const [pendingReplace, setPendingReplace] = useState<{
+    anonymous: boolean;
+    currentAddress: string;
+    restoredAddress: string;
+  } | null>(null);
+  const { signUp, restoreWallet } = useAuth();
+
+  const handleSignup = async (anonymous: boolean = false, replaceExisting: boolean = false) => {
+    if (walletPassword.length < 8) {
+      toast.error("Wallet password must be at least 8 characters");
+      return;
+    }
 
-  const handleSignup = async (anonymous: boolean = false) => {
     setLoading(true);
     
     try {
+      if (restoreMode) {
+        if (!replaceExisting) {
+          let restoredAddress: string;
+          try {
+            restoredAddress = restoreWalletFromMnemonic(recoveryPhrase).address;
+          } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Invalid recovery phrase");
+            return;
+          }
+
+          const currentAddress = await getStoredWalletAddress();
+          if (currentAddress && currentAddress.toLowerCase() !== restoredAddress.toLowerCase()) {
+            setPendingReplace({ anonymous, currentAddress, restoredAddress });
+            return;
+          }
+        }
+
+        const { error: restoreError } = await restoreWallet(recoveryPhrase, walletPassword, { replaceExisting });
+        if (restoreError) {
+          toast.error(restoreError.message);
+          return;
+        }
+      }
+
       const { error } = await signUp(
         anonymous ? undefined : email || undefined,
         anonymous ? undefined : phone || undefined,
-        displayName || undefined
+        displayName || undefined,
+        walletPassword
       );
 
       if (error) {
         toast.error(error.message);
       } else {
-        toast.success("Account created! Wallet generated securely.");
+        toast.success(restoreMode
+          ? "Account created! Wallet restored from your recovery phrase."
+          : "Account created! Wallet generated securely.");
         onComplete();
       }
     } catch (err) {
@@ -50,13 +103,35 @@ export default function UserSignup({ onComplete }: UserSignupProps) {
               <div className="w-16 h-16 bg-gradient-primary rounded-full flex items-center justify-center mx-auto">
                 <Wallet className="w-8 h-8 text-white" />
               </div>
-              <h2 className="text-2xl font-bold">Create Your Account</h2>
+              <h2 className="text-2xl font-bold">
+                {restoreMode ? "Restore Your Wallet" : "Create Your Account"}
+              </h2>
               <p className="text-muted-foreground">
-                We'll generate a secure anonymous wallet for you automatically
+                {restoreMode
+                  ? "Enter your 12-word recovery phrase to recover your wallet and credentials"
+                  : "We'll generate a secure anonymous wallet for you automatically"}
               </p>
             </div>
 
             <div className="space-y-4">
+              {restoreMode && (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryPhrase">
+                    <KeyRound className="w-4 h-4 inline mr-2" />
+                    Recovery Phrase
+                  </Label>
+                  <Textarea
+                    id="recoveryPhrase"
+                    placeholder="word1 word2 word3 ..."
+                    value={recoveryPhrase}
+                    onChange={(e) => setRecoveryPhrase(e.target.value)}
+                    autoComplete="off"
+                    spellCheck={false}
+                    rows={3}
+                  />
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="displayName">
                   <User className="w-4 h-4 inline mr-2" />
@@ -97,6 +172,24 @@ export default function UserSignup({ onComplete }: UserSignupProps) {
                   onChange={(e) => setPhone(e.target.value)}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="walletPassword">
+                  <Lock className="w-4 h-4 inline mr-2" />
+                  Wallet Password
+                </Label>
+                <Input
+                  id="walletPassword"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={walletPassword}
+                  onChange={(e) => setWalletPassword(e.target.value)}
+                  minLength={8}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Encrypts your wallet keys on this device. It cannot be recovered if lost.
+                </p>
+              </div>
             </div>
 
             <div className="space-y-3">
@@ -127,15 +220,49 @@ export default function UserSignup({ onComplete }: UserSignupProps) {
               >
                 Continue Anonymously
               </Button>
+
+              <Button
+                onClick={() => setRestoreMode(!restoreMode)}
+                disabled={loading}
+                variant="ghost"
+                className="w-full"
+              >
+                {restoreMode ? "Create a new wallet instead" : "Restore from recovery phrase"}
+              </Button>
             </div>
 
             <div className="text-xs text-muted-foreground text-center space-y-1">
-              <p>🔒 Your wallet keypair is generated locally and stored securely on your device</p>
+              <p>🔒 Your wallet keypair is generated locally and encrypted on your device</p>
               <p>✨ Zero-knowledge proofs protect your privacy</p>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      <AlertDialog open={!!pendingReplace} onOpenChange={(open) => !open && setPendingReplace(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the wallet on this device?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This device holds wallet {pendingReplace?.currentAddress.slice(0, 10)}..., but the recovery
+              phrase restores {pendingReplace?.restoredAddress.slice(0, 10)}.... The current wallet and its
+              encrypted credentials will be removed. Only continue if you have its recovery phrase.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Current Wallet</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const anonymous = pendingReplace?.anonymous ?? false;
+                setPendingReplace(null);
+                handleSignup(anonymous, true);
+              }}
+            >
+              Replace Wallet
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { changeWalletPassword, getUnlockedWallet, isLegacyWallet, lockWallet, unlockWallet } from "@/lib/wallet";
+import { SecureWallet } from "@/lib/secureWallet";
+import { toast } from "sonner";
+
+interface WalletSecurityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WalletSecurityDialog({ open, onOpenChange }: WalletSecurityDialogProps) {
+  const [legacy, setLegacy] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      isLegacyWallet().then(setLegacy);
+    } else {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (newPassword !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    // Leave an already unlocked session unlocked
+    const wasUnlocked = getUnlockedWallet() !== null;
+    const credentialsWereUnlocked = SecureWallet.isUnlocked();
+    try {
+      if (legacy) {
+        // Sealing a cleartext wallet happens on its first unlock
+        await unlockWallet(newPassword);
+        await SecureWallet.tryUnlock(newPassword);
+        toast.success("Wallet encrypted with your new password");
+      } else {
+        await changeWalletPassword(currentPassword, newPassword);
+        // The secure wallet shares the wallet password
+        await SecureWallet.changePassphrase(currentPassword, newPassword).catch(error => {
+          console.warn('Failed to re-encrypt secure wallet:', error);
+        });
+        toast.success("Wallet password changed");
+      }
+      if (!wasUnlocked) lockWallet();
+      if (!credentialsWereUnlocked) SecureWallet.lock();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update wallet password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{legacy ? "Protect Your Wallet" : "Change Wallet Password"}</DialogTitle>
+          <DialogDescription>
+            Your private key and recovery phrase are stored in an encrypted keystore on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {legacy ? (
+            <div className="flex items-start gap-2 text-sm text-warning bg-warning/10 p-3 rounded-lg">
+              <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              This wallet is stored unencrypted. Set a password to seal it.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New Password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              placeholder="At least 8 characters"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              minLength={8}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={loading || !newPassword || (!legacy && !currentPassword)}
+            className="w-full"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Encrypting...
+              </>
+            ) : (
+              legacy ? "Encrypt Wallet" : "Change Password"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
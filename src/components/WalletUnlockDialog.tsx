@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LockOpen, ShieldAlert } from "lucide-react";
+import { isLegacyWallet } from "@/lib/wallet";
+import { toast } from "sonner";
+
+interface WalletUnlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUnlock: (password: string) => Promise<void>;
+}
+
+export function WalletUnlockDialog({ open, onOpenChange, onUnlock }: WalletUnlockDialogProps) {
+  const [legacy, setLegacy] = useState(false);
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      isLegacyWallet().then(setLegacy);
+    } else {
+      setPassword("");
+    }
+  }, [open]);
+
+  const handleUnlock = async () => {
+    setLoading(true);
+    try {
+      await onUnlock(password);
+      setPassword("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock wallet");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{legacy ? "Protect Your Wallet" : "Unlock Your Wallet"}</DialogTitle>
+          <DialogDescription>
+            Your ZK identity is derived from your wallet. It stays unlocked until you sign out or close the app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+        >
+          {legacy && (
+            <div className="flex items-start gap-2 text-sm text-warning bg-warning/10 p-3 rounded-lg">
+              <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              This wallet is stored unencrypted. Choose a password to seal it.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="unlockPassword">{legacy ? "New Wallet Password" : "Wallet Password"}</Label>
+            <Input
+              id="unlockPassword"
+              type="password"
+              autoFocus
+              placeholder={legacy ? "At least 8 characters" : undefined}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" disabled={loading || !password} className="w-full">
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Unlocking...
+              </>
+            ) : (
+              <>
+                <LockOpen className="w-4 h-4 mr-2" />
+                {legacy ? "Encrypt and Unlock" : "Unlock"}
+              </>
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import type { ReactNode } from "react";
+import { ZKIdentityContext } from "@/contexts/ZKIdentityContext";
+import { useZKIdentityState } from "@/hooks/useZKIdentityState";
+import { RewardScreen } from "@/components/RewardScreen";
+import { WalletUnlockDialog } from "@/components/WalletUnlockDialog";
+
+interface ZKIdentityProviderProps {
+  children: ReactNode;
+}
+
+export function ZKIdentityProvider({ children }: ZKIdentityProviderProps) {
+  const state = useZKIdentityState();
+
+  return (
+    <ZKIdentityContext.Provider value={state}>
+      {children}
+
+      <WalletUnlockDialog
+        open={state.unlockPromptOpen}
+        onOpenChange={state.setUnlockPromptOpen}
+        onUnlock={state.unlockSession}
+      />
+
+      {/* Reward Screen, shown above whichever screen triggered it */}
+      {state.showRewardScreen && state.rewardData && (
+        <RewardScreen
+          isOpen={state.showRewardScreen}
+          onClose={state.closeRewardScreen}
+          eventName={state.rewardData.eventName}
+          nftImage={state.rewardData.nftImage}
+          txHash={state.rewardData.txHash}
+        />
+      )}
+    </ZKIdentityContext.Provider>
+  );
+}
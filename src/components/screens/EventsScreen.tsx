@@ -1,85 +1,73 @@
-import { useState } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { format, isSameDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Calendar, MapPin, Users, Clock, Search, Filter, Zap, UserPlus } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, MapPin, Users, Clock, Search, Filter, Zap, UserPlus, ChevronLeft, ChevronRight, ArrowUpDown, ScanLine } from "lucide-react";
 import eventsImage from "@/assets/events-icon.jpg";
 import { useZKIdentity } from "@/hooks/useZKIdentity";
+import { useEvents, useEventCategories } from "@/hooks/useEvents";
 import { GroupSession } from "@/components/GroupSession";
+import { QRCodeScanner } from "@/components/QRCodeScanner";
+import type { CatalogEvent, EventSort, EventStatus } from "@/lib/events";
+
+const STATUS_FILTERS: { label: string; value: EventStatus | 'all' }[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Open', value: 'open' },
+  { label: 'Upcoming', value: 'upcoming' },
+  { label: 'Ended', value: 'ended' }
+];
+
+const ALL_CATEGORIES = 'all';
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatEventDate = (event: CatalogEvent) =>
+  isSameDay(event.startsAt, event.endsAt)
+    ? format(event.startsAt, 'MMM d, yyyy')
+    : `${format(event.startsAt, 'MMM d')} - ${format(event.endsAt, 'MMM d, yyyy')}`;
 
 export default function EventsScreen() {
-  const { generateEventCredential, isGeneratingProof, submitGroupProofToBlockchain } = useZKIdentity();
-  const [joinedEvents, setJoinedEvents] = useState<Set<string>>(new Set());
-  const [selectedEvent, setSelectedEvent] = useState<string | null>(null);
-  const [showGroupSession, setShowGroupSession] = useState(false);
+  const { credentials, isGeneratingProof, submitGroupProofToBlockchain } = useZKIdentity();
+  const [selectedEvent, setSelectedEvent] = useState<CatalogEvent | null>(null);
+  // Attendance credentials are only issued from an organizer's check-in code
+  const [checkInEvent, setCheckInEvent] = useState<CatalogEvent | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<EventStatus | 'all'>('all');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [sort, setSort] = useState<EventSort>('date-asc');
+  const [showFilters, setShowFilters] = useState(false);
+  const [page, setPage] = useState(0);
 
-  // Mock events data
-  const events = [
-    {
-      id: "1",
-      name: "ETH Denver 2025",
-      description: "The largest Ethereum event in the world returns to Denver",
-      location: "Denver, CO",
-      date: "Feb 28 - Mar 2, 2025",
-      time: "9:00 AM MST",
-      attendees: 4500,
-      status: "upcoming",
-      category: "Conference",
-      requiresProof: true
-    },
-    {
-      id: "2",
-      name: "ZK Summit 11",
-      description: "The premier zero-knowledge proof research conference",
-      location: "Athens, Greece", 
-      date: "Apr 10-12, 2025",
-      time: "10:00 AM EEST",
-      attendees: 800,
-      status: "registration",
-      category: "Research",
-      requiresProof: true
-    },
-    {
-      id: "3",
-      name: "Privacy Tech Meetup",
-      description: "Monthly meetup for privacy technology enthusiasts",
-      location: "San Francisco, CA",
-      date: "Dec 15, 2024",
-      time: "6:00 PM PST",
-      attendees: 150,
-      status: "open",
-      category: "Meetup",
-      requiresProof: false
-    },
-    {
-      id: "4",
-      name: "Cryptography Workshop",
-      description: "Hands-on workshop on modern cryptographic protocols",
-      location: "Online",
-      date: "Jan 20, 2025",
-      time: "2:00 PM UTC",
-      attendees: 300,
-      status: "upcoming",
-      category: "Workshop",
-      requiresProof: true
-    }
-  ];
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const handleJoinEvent = async (event: typeof events[0]) => {
-    if (joinedEvents.has(event.id) || isGeneratingProof) return;
+  // Any change to the query starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [search, status, category, sort]);
 
-    try {
-      await generateEventCredential(event.id, event.name, {
-        location: event.location,
-        attendeeCount: event.attendees
-      });
-      
-      setJoinedEvents(prev => new Set([...prev, event.id]));
-    } catch (error) {
-      console.error('Failed to generate credential:', error);
-    }
-  };
+  const { data, isLoading, isError, error, isFetching, refetch } = useEvents({
+    search,
+    status: status === 'all' ? undefined : status,
+    category: category === ALL_CATEGORIES ? undefined : category,
+    sort,
+    page
+  });
+  const { data: categories = [] } = useEventCategories();
+
+  const events = data?.events ?? [];
+
+  // Joined state comes from stored credentials so it survives reloads
+  const joinedEvents = useMemo(
+    () => new Set(credentials.map(credential => credential.eventId)),
+    [credentials]
+  );
 
   const handleGroupProofGenerated = async (groupProof: any) => {
     try {
@@ -90,31 +78,41 @@ export default function EventsScreen() {
     }
   };
 
-  const handleGroupSession = (eventId: string, eventName: string) => {
-    setSelectedEvent(eventId);
-    setShowGroupSession(true);
-  };
+  if (checkInEvent) {
+    return (
+      <div className="p-6 pb-24 space-y-6 animate-fade-in">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold">Check In</h1>
+          <p className="text-muted-foreground">{checkInEvent.name}</p>
+        </div>
+
+        <QRCodeScanner
+          checkInEventId={checkInEvent.id}
+          onClose={() => setCheckInEvent(null)}
+        />
+      </div>
+    );
+  }
 
-  if (showGroupSession && selectedEvent) {
-    const event = events.find(e => e.id === selectedEvent);
+  if (selectedEvent) {
     return (
       <div className="p-6 pb-24 space-y-6 animate-fade-in">
         <div className="flex items-center justify-between">
           <div className="space-y-2">
             <h1 className="text-2xl font-bold">Group Verification</h1>
-            <p className="text-muted-foreground">{event?.name}</p>
+            <p className="text-muted-foreground">{selectedEvent.name}</p>
           </div>
           <Button 
             variant="outline" 
-            onClick={() => setShowGroupSession(false)}
+            onClick={() => setSelectedEvent(null)}
           >
             Back to Events
           </Button>
         </div>
         
         <GroupSession
-          eventId={selectedEvent}
-          eventName={event?.name || 'Unknown Event'}
+          eventId={selectedEvent.id}
+          eventName={selectedEvent.name}
           onGroupProofGenerated={handleGroupProofGenerated}
         />
       </div>
@@ -136,27 +134,80 @@ export default function EventsScreen() {
           <Input 
             placeholder="Search events..." 
             className="pl-10"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
           />
         </div>
         <div className="flex space-x-2">
-          <Button variant="outline" size="sm" className="flex-1">
+          <Button
+            variant={showFilters ? "secondary" : "outline"}
+            size="sm"
+            className="flex-1"
+            onClick={() => setShowFilters(prev => !prev)}
+          >
             <Filter className="w-4 h-4 mr-2" />
             Filter
           </Button>
-          <Button variant="outline" size="sm">
-            All
-          </Button>
-          <Button variant="outline" size="sm">
-            Upcoming
-          </Button>
-          <Button variant="outline" size="sm">
-            Online
-          </Button>
+          {STATUS_FILTERS.map(filter => (
+            <Button
+              key={filter.value}
+              variant={status === filter.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatus(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
         </div>
+        {showFilters && (
+          <div className="flex space-x-2">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => setSort(prev => prev === 'date-asc' ? 'date-desc' : 'date-asc')}
+            >
+              <ArrowUpDown className="w-4 h-4 mr-2" />
+              {sort === 'date-asc' ? 'Soonest' : 'Latest'}
+            </Button>
+          </div>
+        )}
       </div>
 
+      {/* Loading State */}
+      {isLoading && (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }, (_, index) => (
+            <Skeleton key={index} className="h-48 w-full rounded-lg" />
+          ))}
+        </div>
+      )}
+
+      {/* Error State */}
+      {isError && (
+        <Card className="shadow-card">
+          <CardContent className="p-6 text-center space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {error instanceof Error ? error.message : 'Failed to load events'}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Events List */}
-      <div className="space-y-4">
+      <div className={`space-y-4 ${isFetching && !isLoading ? 'opacity-60' : ''}`}>
         {events.map((event) => (
           <Card key={event.id} className="shadow-card">
             <CardHeader className="pb-3">
@@ -179,7 +230,7 @@ export default function EventsScreen() {
                   className={
                     event.status === 'open' 
                       ? 'bg-success hover:bg-success/80' 
-                      : event.status === 'registration'
+                      : event.status === 'upcoming'
                       ? 'bg-primary hover:bg-primary/80'
                       : 'bg-muted hover:bg-muted/80'
                   }
@@ -196,15 +247,15 @@ export default function EventsScreen() {
                 </div>
                 <div className="flex items-center space-x-2">
                   <Users className="w-4 h-4 text-muted-foreground" />
-                  <span>{event.attendees} attendees</span>
+                  <span>{event.attendeeCount} attendees</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Calendar className="w-4 h-4 text-muted-foreground" />
-                  <span>{event.date}</span>
+                  <span>{formatEventDate(event)}</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Clock className="w-4 h-4 text-muted-foreground" />
-                  <span>{event.time}</span>
+                  <span>{format(event.startsAt, 'p')}</span>
                 </div>
               </div>
 
@@ -219,8 +270,8 @@ export default function EventsScreen() {
                       <Button 
                         size="sm" 
                         className="flex-1"
-                        onClick={() => handleJoinEvent(event)}
-                        disabled={isGeneratingProof || event.status === 'upcoming'}
+                        onClick={() => setCheckInEvent(event)}
+                        disabled={isGeneratingProof || event.status !== 'open'}
                       >
                         {isGeneratingProof ? (
                           <>
@@ -229,8 +280,8 @@ export default function EventsScreen() {
                           </>
                         ) : (
                           <>
-                            <Zap className="w-3 h-3 mr-1" />
-                            Generate Proof
+                            <ScanLine className="w-3 h-3 mr-1" />
+                            Check In
                           </>
                         )}
                       </Button>
@@ -240,7 +291,7 @@ export default function EventsScreen() {
                           size="sm"
                           variant="outline"
                           className="flex-1"
-                          onClick={() => handleGroupSession(event.id, event.name)}
+                          onClick={() => setSelectedEvent(event)}
                         >
                           <UserPlus className="w-3 h-3 mr-1" />
                           Group
@@ -254,8 +305,35 @@ export default function EventsScreen() {
         ))}
       </div>
 
+      {/* Pagination */}
+      {data && data.pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(prev => Math.max(prev - 1, 0))}
+            disabled={page === 0 || isFetching}
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page + 1} of {data.pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={page + 1 >= data.pageCount || isFetching}
+          >
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
       {/* Empty State */}
-      {events.length === 0 && (
+      {!isLoading && !isError && events.length === 0 && (
         <Card className="shadow-card">
           <CardContent className="p-8 text-center space-y-4">
             <img 
@@ -266,7 +344,9 @@ export default function EventsScreen() {
             <div className="space-y-2">
               <h3 className="text-lg font-medium">No events found</h3>
               <p className="text-muted-foreground">
-                Check back later for new privacy-focused events
+                {search || status !== 'all' || category !== ALL_CATEGORIES
+                  ? 'Try a different search or filter'
+                  : 'Check back later for new privacy-focused events'}
               </p>
             </div>
           </CardContent>
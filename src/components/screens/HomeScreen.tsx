@@ -31,7 +31,7 @@ export default function HomeScreen() {
   
   const crowdSimulation = useRef<CrowdSimulation | null>(null);
   
-  const { generateCoPresenceProof, identity, isGeneratingProof } = useZKIdentity();
+  const { isGeneratingProof } = useZKIdentity();
   const { toast } = useToast();
 
   // Initialize crowd simulation
@@ -133,24 +133,12 @@ export default function HomeScreen() {
       // Update in crowd simulation
       crowdSimulation.current?.updateUserConnection(userId, true, ephemeralId);
 
+      // Simulated peers cannot sign, so the proof itself comes from the QR handshake
       toast({
         title: "Connection Established! 🔗",
-        description: `Ephemeral ID: ${ephemeralId}`,
+        description: `Exchange QR codes with ${username} to prove you met`,
       });
-
-      // Generate ZK proof of co-presence
-      const userIdA = identity?.identityCommitment || "0x" + generateEphemeralId();
-      const userIdB = userId;
-      const usernameA = "You";
-      
-      await generateCoPresenceProof(
-        userIdA,
-        userIdB,
-        usernameA,
-        username,
-        ephemeralId,
-        "BLE Range"
-      );
+      setShowQRGenerator(true);
 
     } catch (error) {
       toast({
@@ -3,8 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { getStoredWallet } from "@/lib/wallet";
+import { getStoredWalletAddress, isWalletBackedUp } from "@/lib/wallet";
+import { WalletSecurityDialog } from "@/components/WalletSecurityDialog";
+import { SeedPhraseBackupDialog } from "@/components/SeedPhraseBackupDialog";
+import { useZKIdentity, selectCloudSync } from "@/hooks/useZKIdentity";
 import { toast } from "sonner";
 import { 
   User, 
@@ -18,15 +22,26 @@ import {
   Calendar,
   TrendingUp,
   Copy,
-  Wallet
+  Wallet,
+  KeyRound,
+  Cloud,
+  RefreshCw,
+  CalendarPlus
 } from "lucide-react";
 
 export default function ProfileScreen() {
+  const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const [wallet, setWallet] = useState(getStoredWallet());
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [showSecurityDialog, setShowSecurityDialog] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [backedUp, setBackedUp] = useState(true);
+  const cloudSync = useZKIdentity(selectCloudSync);
+  const lockSession = useZKIdentity(state => state.lockSession);
 
   useEffect(() => {
-    setWallet(getStoredWallet());
+    getStoredWalletAddress().then(setWalletAddress);
+    isWalletBackedUp().then(setBackedUp);
   }, [user]);
 
   const copyToClipboard = (text: string, label: string) => {
@@ -36,6 +51,7 @@ export default function ProfileScreen() {
 
   const handleSignOut = async () => {
     const { error } = await signOut();
+    lockSession();
     if (error) {
       toast.error("Failed to sign out");
     } else {
@@ -59,6 +75,24 @@ export default function ProfileScreen() {
         </div>
       </div>
 
+      {/* Backup Reminder */}
+      {walletAddress && !backedUp && (
+        <Card className="shadow-card border-warning/30">
+          <CardContent className="p-4 flex items-center gap-3">
+            <KeyRound className="w-5 h-5 text-warning shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium">Back up your recovery phrase</p>
+              <p className="text-xs text-muted-foreground">
+                Without it, clearing your browser data loses every credential
+              </p>
+            </div>
+            <Button size="sm" onClick={() => setShowBackupDialog(true)}>
+              Back Up
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Anonymous Credentials */}
       <Card className="shadow-card">
         <CardHeader>
@@ -78,17 +112,17 @@ export default function ProfileScreen() {
               </div>
               <div className="flex-1">
                 <code className="text-sm font-mono text-foreground">
-                  {wallet ? `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}` : '0x****...****'}
+                  {walletAddress ? `${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}` : '0x****...****'}
                 </code>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Anonymous wallet • Locally generated
+                  Anonymous wallet • Encrypted on this device
                 </p>
               </div>
-              {wallet && (
+              {walletAddress && (
                 <Button 
                   size="sm" 
                   variant="ghost"
-                  onClick={() => copyToClipboard(wallet.address, 'Wallet address')}
+                  onClick={() => copyToClipboard(walletAddress, 'Wallet address')}
                 >
                   <Copy className="w-4 h-4" />
                 </Button>
@@ -168,6 +202,42 @@ export default function ProfileScreen() {
             </div>
             <Switch checked={false} />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Cloud className="w-5 h-5 text-muted-foreground" />
+              <div>
+                <p className="font-medium">Encrypted Cloud Backup</p>
+                <p className="text-sm text-muted-foreground">
+                  {cloudSync.enabled && cloudSync.locked
+                    ? "Locked — unlock to sync"
+                    : cloudSync.syncError
+                      ? cloudSync.syncError
+                      : cloudSync.lastSyncedAt
+                        ? `Last synced ${new Date(cloudSync.lastSyncedAt).toLocaleTimeString()}`
+                        : "Encrypted with your wallet key"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {cloudSync.enabled && cloudSync.locked ? (
+                <Button size="sm" variant="outline" onClick={cloudSync.unlock}>
+                  <Lock className="w-4 h-4 mr-1" />
+                  Unlock
+                </Button>
+              ) : cloudSync.enabled && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => cloudSync.syncNow()}
+                  disabled={cloudSync.isSyncing}
+                >
+                  <RefreshCw className={`w-4 h-4 ${cloudSync.isSyncing ? 'animate-spin' : ''}`} />
+                </Button>
+              )}
+              <Switch checked={cloudSync.enabled} onCheckedChange={cloudSync.setEnabled} />
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -178,8 +248,32 @@ export default function ProfileScreen() {
             <Download className="w-4 h-4 mr-3" />
             Export Data
           </Button>
+
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => navigate('/organizer')}
+          >
+            <CalendarPlus className="w-4 h-4 mr-3" />
+            Organizer Console
+          </Button>
           
-          <Button variant="outline" className="w-full justify-start">
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => setShowBackupDialog(true)}
+            disabled={!walletAddress}
+          >
+            <KeyRound className="w-4 h-4 mr-3" />
+            Recovery Phrase Backup
+          </Button>
+
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => setShowSecurityDialog(true)}
+            disabled={!walletAddress}
+          >
             <Shield className="w-4 h-4 mr-3" />
             Security Settings
           </Button>
@@ -195,6 +289,13 @@ export default function ProfileScreen() {
         </CardContent>
       </Card>
 
+      <WalletSecurityDialog open={showSecurityDialog} onOpenChange={setShowSecurityDialog} />
+      <SeedPhraseBackupDialog
+        open={showBackupDialog}
+        onOpenChange={setShowBackupDialog}
+        onBackedUp={() => setBackedUp(true)}
+      />
+
       {/* App Info */}
       <div className="text-center text-sm text-muted-foreground">
         <p>ZKPresence v1.0.0</p>
@@ -6,8 +6,6 @@ import { useZKIdentity } from "@/hooks/useZKIdentity";
 import { useEffect } from "react";
 import confetti from "canvas-confetti";
 import BlockchainStatus from "@/components/BlockchainStatus";
-import { BlockchainManager } from "@/lib/blockchain";
-import { RewardScreen } from "@/components/RewardScreen";
 
 export default function ProofsScreen() {
   const { 
@@ -21,10 +19,7 @@ export default function ProofsScreen() {
     isSubmittingToBlockchain,
     isLoadingNFTs,
     walletConnected,
-    loadUserNFTs,
-    showRewardScreen,
-    rewardData,
-    closeRewardScreen
+    loadUserNFTs
   } = useZKIdentity();
   const stats = getStats();
 
@@ -85,23 +80,29 @@ export default function ProofsScreen() {
     proofHash: cred.proof
   })) : [];
 
-  const coPresenceProofsList = coPresenceProofs.map(proof => ({
-    id: proof.eventId,
-    type: "Co-Presence Proof",
-    event: `Co-presence Meeting`,
-    status: proof.blockchainStatus || "Valid",
-    date: new Date(proof.timestamp).toLocaleDateString(),
-    reward: 75,
-    icon: Users,
-    description: `Proof of co-presence with user ${proof.userIdB.slice(0, 8)}...`,
-    proof: proof.proofString,
-    location: proof.location || "Unknown",
-    usernameB: proof.usernameB,
-    ephemeralNonce: proof.ephemeralNonce,
-    maskedUserId: proof.userIdB.slice(0, 8) + "...",
-    eventId: proof.eventId,
-    proofHash: proof.proofString
-  }));
+  const coPresenceProofsList = coPresenceProofs.map(proof => {
+    // Show the other party relative to this device's side of the handshake
+    const isInitiator = proof.role === 'initiator';
+    const peerId = isInitiator ? proof.userIdB : proof.userIdA;
+    return {
+      id: proof.eventId,
+      type: "Co-Presence Proof",
+      event: `Co-presence Meeting`,
+      status: proof.blockchainStatus || "Valid",
+      date: new Date(proof.timestamp).toLocaleDateString(),
+      reward: 75,
+      icon: Users,
+      description: `Proof of co-presence with user ${peerId.slice(0, 8)}...`,
+      proof: proof.binding,
+      location: proof.location || "Unknown",
+      usernameB: isInitiator ? proof.usernameB : proof.usernameA,
+      ephemeralNonce: proof.ephemeralNonce,
+      maskedUserId: peerId.slice(0, 8) + "...",
+      eventId: proof.eventId,
+      nullifier: isInitiator ? proof.credentialA.nullifier : proof.credentialB.nullifier,
+      proofHash: proof.binding
+    };
+  });
 
   // Combine all proofs
   const allProofs = [...eventProofs, ...coPresenceProofsList];
@@ -195,29 +196,15 @@ export default function ProofsScreen() {
     }
   };
 
+  // Only attendance credentials can be verified on-chain
   const handleSubmitToBlockchain = async (proof: any) => {
+    if (!proof.credential) return;
+
     try {
-      let result;
-      if (proof.credential) {
-        // Submit event credential
-        result = await submitProofToBlockchain(proof.credential);
-      } else if (proof.eventId && proof.proofHash) {
-        // Submit co-presence proof directly using BlockchainManager
-        result = await BlockchainManager.submitProofToBlockchain(proof.eventId, proof.proofHash);
-      }
-      
+      const result = await submitProofToBlockchain(proof.credential);
       if (result) {
         // Update local proof status
-        if (proof.credential) {
-          // Update credential status
-          proof.credential.blockchainStatus = "Submitted";
-        } else {
-          // Update co-presence proof status
-          const coPresenceProof = coPresenceProofs.find(p => p.eventId === proof.id);
-          if (coPresenceProof) {
-            coPresenceProof.blockchainStatus = "Submitted";
-          }
-        }
+        proof.credential.blockchainStatus = "Submitted";
         console.log('Submitted to blockchain:', result);
       }
     } catch (error) {
@@ -391,7 +378,7 @@ export default function ProofsScreen() {
                       <Share className="w-4 h-4 mr-1" />
                       Share
                     </Button>
-                    {walletConnected && proof.status !== "Submitted" && (
+                    {walletConnected && proof.credential && proof.status !== "Submitted" && (
                       <Button 
                         size="sm" 
                         variant="outline" 
@@ -514,17 +501,6 @@ export default function ProofsScreen() {
           )}
         </div>
       )}
-
-      {/* Reward Screen */}
-      {showRewardScreen && rewardData && (
-        <RewardScreen
-          isOpen={showRewardScreen}
-          onClose={closeRewardScreen}
-          eventName={rewardData.eventName}
-          nftImage={rewardData.nftImage}
-          txHash={rewardData.txHash}
-        />
-      )}
     </div>
   );
 }
\ No newline at end of file
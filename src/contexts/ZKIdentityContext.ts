@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import type { ZKIdentityState } from '@/hooks/useZKIdentityState';
+
+// Provided once by ZKIdentityProvider; null outside of it
+export const ZKIdentityContext = createContext<ZKIdentityState | null>(null);
@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { generateWallet, storeWalletSecurely, hasStoredWallet } from '@/lib/wallet';
+import {
+  generateWallet,
+  storeWalletSecurely,
+  hasStoredWallet,
+  getStoredWalletAddress,
+  restoreWalletFromMnemonic
+} from '@/lib/wallet';
+import { ZKIdentityManager } from '@/lib/zkIdentity';
+import { SecureWallet } from '@/lib/secureWallet';
 
 export interface AuthState {
   user: User | null;
@@ -27,17 +35,10 @@ export const useAuth = () => {
           loading: false
         }));
 
-        // Generate wallet on first signup
-        if (event === 'SIGNED_IN' && session?.user && !hasStoredWallet()) {
+        // Link the locally generated wallet to the profile
+        if (event === 'SIGNED_IN' && session?.user) {
           setTimeout(() => {
-            const wallet = generateWallet();
-            storeWalletSecurely(wallet);
-            
-            // Update user profile with wallet address
-            supabase
-              .from('profiles')
-              .update({ wallet_address: wallet.address })
-              .eq('user_id', session.user.id);
+            linkStoredWallet(session.user.id);
           }, 0);
         }
       }
@@ -56,8 +57,15 @@ export const useAuth = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email?: string, phone?: string, displayName?: string) => {
+  const signUp = async (email?: string, phone?: string, displayName?: string, walletPassword?: string) => {
     const redirectUrl = `${window.location.origin}/`;
+
+    // Generate the wallet first so a bad password fails before the account exists
+    try {
+      await createWallet(walletPassword);
+    } catch (error) {
+      return { error: error as Error };
+    }
     
     if (email) {
       const { error } = await supabase.auth.signUp({
@@ -86,6 +94,46 @@ export const useAuth = () => {
     }
   };
 
+  // Rebuild the wallet and ZK identity from a recovery phrase. A different wallet already on
+  // this device is only replaced once the user has confirmed it.
+  const restoreWallet = async (
+    phrase: string,
+    walletPassword: string,
+    options: { replaceExisting?: boolean } = {}
+  ) => {
+    try {
+      const wallet = restoreWalletFromMnemonic(phrase);
+
+      if (authState.user) {
+        const linkedAddress = await getLinkedWalletAddress(authState.user.id);
+        if (linkedAddress && !isSameAddress(linkedAddress, wallet.address)) {
+          throw new Error('This recovery phrase belongs to a different wallet than your account');
+        }
+      }
+
+      const currentAddress = await getStoredWalletAddress();
+      const replacing = !!currentAddress && !isSameAddress(currentAddress, wallet.address);
+      if (replacing && !options.replaceExisting) {
+        throw new Error('A different wallet is stored on this device. Confirm to replace it.');
+      }
+      if (replacing) {
+        // Credentials sealed for the replaced wallet cannot be opened by the restored one
+        await SecureWallet.clearWallet();
+      }
+
+      await storeWalletSecurely(wallet, walletPassword, { backedUp: true });
+      await ZKIdentityManager.restoreIdentity(wallet.mnemonic);
+      await SecureWallet.tryUnlock(walletPassword);
+
+      if (authState.user) {
+        await linkStoredWallet(authState.user.id);
+      }
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     return { error };
@@ -94,10 +142,48 @@ export const useAuth = () => {
   return {
     ...authState,
     signUp,
+    restoreWallet,
     signOut
   };
 };
 
+// Create and seal a wallet on this device unless one already exists
+const createWallet = async (walletPassword?: string): Promise<void> => {
+  if (await hasStoredWallet()) return;
+
+  const wallet = generateWallet();
+  await storeWalletSecurely(wallet, walletPassword || '');
+  await ZKIdentityManager.restoreIdentity(wallet.mnemonic);
+  await SecureWallet.tryUnlock(walletPassword || '');
+};
+
+const getLinkedWalletAddress = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('wallet_address')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load your account's wallet: ${error.message}`);
+  return data?.wallet_address ?? null;
+};
+
+const isSameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const linkStoredWallet = async (userId: string): Promise<void> => {
+  const address = await getStoredWalletAddress();
+  if (!address) return;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ wallet_address: address })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Failed to link wallet to profile:', error);
+  }
+};
+
 const generateRandomPassword = (): string => {
   return Math.random().toString(36).slice(-12) + Math.random().toString(36).slice(-12);
 };
\ No newline at end of file
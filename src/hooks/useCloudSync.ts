@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CloudSyncManager, type SyncResult } from '@/lib/cloudSync';
+import { useStoreChanges } from '@/hooks/useStoreChanges';
+
+const CLOUD_SYNC_PREFERENCE_KEY = 'zkpresence-cloud-sync';
+const SYNC_DEBOUNCE_MS = 2000;
+
+interface CloudSyncOptions {
+  // Whether the wallet that the sync key derives from is locked
+  locked: boolean;
+  onUnlockRequired: () => void;
+}
+
+// Opt-in encrypted backup; syncs on enable, on unlock and shortly after local changes
+export function useCloudSync({ locked, onUnlockRequired }: CloudSyncOptions) {
+  const [enabled, setEnabledState] = useState(
+    () => localStorage.getItem(CLOUD_SYNC_PREFERENCE_KEY) === 'true'
+  );
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const debounceRef = useRef<ReturnType<typeof setTimeout>>();
+  // Read from syncNow, which is created once
+  const onUnlockRequiredRef = useRef(onUnlockRequired);
+  onUnlockRequiredRef.current = onUnlockRequired;
+
+  const syncNow = useCallback(async (): Promise<SyncResult | null> => {
+    if (!CloudSyncManager.isAvailable()) {
+      onUnlockRequiredRef.current();
+      return null;
+    }
+
+    setIsSyncing(true);
+    try {
+      const result = await CloudSyncManager.sync();
+      setLastSyncedAt(Date.now());
+      setSyncError(null);
+      return result;
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : 'Sync failed');
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled && !locked && CloudSyncManager.isAvailable()) {
+      syncNow();
+    }
+  }, [enabled, locked, syncNow]);
+
+  useEffect(() => () => clearTimeout(debounceRef.current), []);
+
+  // Other tabs upload their own changes, so only react to writes made here
+  useStoreChanges(['credentials', 'copresenceProofs', 'groupProofs'], ({ origin }) => {
+    if (!enabled || origin !== 'local' || !CloudSyncManager.isAvailable()) return;
+
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+  });
+
+  const setEnabled = (value: boolean) => {
+    localStorage.setItem(CLOUD_SYNC_PREFERENCE_KEY, String(value));
+    setEnabledState(value);
+    if (value && !CloudSyncManager.isAvailable()) {
+      onUnlockRequired();
+    }
+  };
+
+  return {
+    enabled,
+    isSyncing,
+    lastSyncedAt,
+    syncError,
+    locked,
+    setEnabled,
+    syncNow,
+    unlock: onUnlockRequired
+  };
+}
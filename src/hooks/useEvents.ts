@@ -0,0 +1,22 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { EventCatalog, type EventQuery } from '@/lib/events';
+
+export const eventsQueryKey = (query: EventQuery) => ['events', query] as const;
+
+// Paged event catalog; keeps the previous page on screen while the next one loads
+export function useEvents(query: EventQuery) {
+  return useQuery({
+    queryKey: eventsQueryKey(query),
+    queryFn: () => EventCatalog.listEvents(query),
+    placeholderData: keepPreviousData,
+    staleTime: 30_000
+  });
+}
+
+export function useEventCategories() {
+  return useQuery({
+    queryKey: ['events', 'categories'],
+    queryFn: () => EventCatalog.getCategories(),
+    staleTime: 5 * 60_000
+  });
+}
@@ -1,6 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
-import { GroupProofManager, type GroupSession, type GroupProof, type GroupParticipant } from '@/lib/groupProofs';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { GroupProofManager, type GroupSession, type GroupProof, type GroupInvitation, type GroupMembership } from '@/lib/groupProofs';
 import { useToast } from '@/hooks/use-toast';
+import { useStoreChanges } from '@/hooks/useStoreChanges';
+import { useAuth } from '@/hooks/useAuth';
+import { useZKIdentity, selectIdentity } from '@/hooks/useZKIdentity';
+
+export interface GroupSessionUser {
+  id: string;
+  username: string;
+  identityCommitment: string | null;
+}
 
 export function useGroupSession() {
   const [currentSession, setCurrentSession] = useState<GroupSession | null>(null);
@@ -10,31 +19,49 @@ export function useGroupSession() {
   const [isJoiningSession, setIsJoiningSession] = useState(false);
   const [isGeneratingProof, setIsGeneratingProof] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const identity = useZKIdentity(selectIdentity);
 
-  // Mock user data - in real app this would come from auth
-  const currentUser = {
-    id: 'user_' + Math.random().toString(36).substr(2, 9),
-    username: 'User' + Math.random().toString(36).substr(2, 4)
-  };
+  // The Supabase user id is stable across renders, reloads and devices
+  const currentUser = useMemo<GroupSessionUser | null>(() => {
+    if (!user) return null;
+    return {
+      id: user.id,
+      username: user.user_metadata?.display_name || 'Anonymous User',
+      identityCommitment: identity?.identityCommitment ?? null
+    };
+  }, [user, identity]);
+
+  const membership = useMemo<GroupMembership | null>(() => {
+    if (!currentSession || !currentUser) return null;
+    return GroupProofManager.getMembership(currentSession, currentUser.id);
+  }, [currentSession, currentUser]);
 
   useEffect(() => {
-    // Load existing data
-    loadUserData();
-    
     // Cleanup expired sessions
-    GroupProofManager.cleanupExpiredSessions();
+    GroupProofManager.cleanupExpiredSessions().catch(error => {
+      console.error('Failed to clean up sessions:', error);
+    });
     
     // Set up periodic cleanup
     const cleanup = setInterval(() => {
-      GroupProofManager.cleanupExpiredSessions();
+      GroupProofManager.cleanupExpiredSessions().catch(error => {
+        console.error('Failed to clean up sessions:', error);
+      });
     }, 60000); // Every minute
 
     return () => clearInterval(cleanup);
   }, []);
 
-  const loadUserData = useCallback(() => {
-    const sessions = GroupProofManager.getUserSessions(currentUser.id);
-    const proofs = GroupProofManager.getStoredGroupProofs();
+  const loadUserData = useCallback(async () => {
+    if (!currentUser) {
+      setUserSessions([]);
+      setCurrentSession(null);
+      return;
+    }
+
+    const sessions = await GroupProofManager.getUserSessions(currentUser.id);
+    const proofs = await GroupProofManager.getStoredGroupProofs();
     
     setUserSessions(sessions);
     setGroupProofs(proofs);
@@ -45,7 +72,53 @@ export function useGroupSession() {
       Date.now() < s.expiresAt
     );
     setCurrentSession(activeSession || null);
-  }, [currentUser.id]);
+  }, [currentUser]);
+
+  // Load existing data once the signed-in user is known
+  useEffect(() => {
+    loadUserData().catch(error => {
+      console.error('Failed to load group sessions:', error);
+    });
+  }, [loadUserData]);
+
+  // Pull sessions joined on other devices into the local cache
+  useEffect(() => {
+    if (!currentUser) return;
+    GroupProofManager.syncUserSessions(currentUser.id).catch(error => {
+      console.warn('Failed to sync group sessions:', error);
+    });
+  }, [currentUser]);
+
+  // Members get the host's published root and inclusion paths once a session completes
+  useEffect(() => {
+    if (!currentUser) return;
+    GroupProofManager.syncPublishedProofs(currentUser.id).catch(error => {
+      console.warn('Failed to load published group proofs:', error);
+    });
+  }, [currentUser, userSessions]);
+
+  // Live participant and status updates for the open session. The fetched copy
+  // is cached locally, which in turn reloads state through useStoreChanges.
+  const activeSessionId = currentSession?.sessionId;
+  useEffect(() => {
+    if (!activeSessionId) return;
+    return GroupProofManager.subscribeToSession(activeSessionId, () => {
+      GroupProofManager.getSession(activeSessionId).catch(error => {
+        console.error('Failed to refresh group session:', error);
+      });
+    });
+  }, [activeSessionId]);
+
+  // Group membership needs both an account and the wallet-derived identity
+  const requireMember = () => {
+    if (!currentUser) {
+      throw new Error('Sign in to use group sessions');
+    }
+    if (!identity) {
+      throw new Error('Unlock your wallet to use group sessions');
+    }
+    return { user: currentUser, identity };
+  };
 
   const createSession = async (
     eventId: string,
@@ -59,11 +132,13 @@ export function useGroupSession() {
     setIsCreatingSession(true);
     
     try {
-      const session = GroupProofManager.createSession(
+      const member = requireMember();
+      const session = await GroupProofManager.createSession(
         eventId,
         eventName,
-        currentUser.id,
-        currentUser.username,
+        member.user.id,
+        member.user.username,
+        member.identity,
         maxParticipants,
         minParticipants,
         location
@@ -90,27 +165,34 @@ export function useGroupSession() {
     }
   };
 
-  const joinSession = async (sessionId: string, sessionKey?: string) => {
+  const joinSession = async (invitation: GroupInvitation) => {
     if (isJoiningSession) return null;
     
     setIsJoiningSession(true);
     
     try {
-      const session = GroupProofManager.joinSession(
-        sessionId,
-        currentUser.id,
-        currentUser.username,
-        sessionKey
+      const member = requireMember();
+      const session = await GroupProofManager.joinSession(
+        invitation,
+        member.user.username,
+        member.identity
       );
       
       if (session) {
         setCurrentSession(session);
         loadUserData();
         
-        toast({
-          title: "Joined Group Session! 🎉",
-          description: `You're now part of ${session.eventName} group`,
-        });
+        if (GroupProofManager.getMembership(session, member.user.id) === 'member') {
+          toast({
+            title: "Joined Group Session! 🎉",
+            description: `You're now part of ${session.eventName} group`,
+          });
+        } else {
+          toast({
+            title: "Join Request Sent",
+            description: `Waiting for the host of ${session.eventName} to approve you`,
+          });
+        }
       }
       
       return session;
@@ -133,7 +215,7 @@ export function useGroupSession() {
       toast({
         variant: "destructive",
         title: "Invalid QR Code",
-        description: "This QR code is not a valid group session",
+        description: "This QR code is not a valid group session invitation",
       });
       return null;
     }
@@ -141,17 +223,26 @@ export function useGroupSession() {
     if (Date.now() > sessionData.expiresAt) {
       toast({
         variant: "destructive",
-        title: "Session Expired",
-        description: "This group session has expired",
+        title: "Invitation Expired",
+        description: "Ask the host for a new invitation",
       });
       return null;
     }
     
-    return joinSession(sessionData.sessionId, sessionData.sessionKey);
+    return joinSession(sessionData);
   };
 
   const generateGroupProof = async () => {
     if (!currentSession || isGeneratingProof) return null;
+
+    if (currentSession.hostUserId !== currentUser?.id) {
+      toast({
+        variant: "destructive",
+        title: "Host Only",
+        description: "Only the host can generate the group proof",
+      });
+      return null;
+    }
     
     if (currentSession.participants.length < currentSession.minParticipants) {
       toast({
@@ -170,9 +261,9 @@ export function useGroupSession() {
         description: "Creating ZK proof for all participants...",
       });
       
-      const groupProof = GroupProofManager.generateGroupProof(currentSession);
+      const groupProof = await GroupProofManager.generateGroupProof(currentSession);
       
-      setGroupProofs(prev => [...prev, groupProof]);
+      setGroupProofs(prev => prev.some(p => p.id === groupProof.id) ? prev : [...prev, groupProof]);
       setCurrentSession(null); // Session completed
       loadUserData();
       
@@ -206,38 +297,52 @@ export function useGroupSession() {
     }
   };
 
-  const leaveSession = () => {
-    if (!currentSession) return;
+  const leaveSession = async () => {
+    if (!currentSession || !currentUser) return;
     
-    if (currentSession.hostUserId === currentUser.id) {
-      // Host leaving - end session for everyone
-      currentSession.status = 'expired';
-      GroupProofManager.storeSession(currentSession);
-      
-      toast({
-        title: "Session Ended",
-        description: "You ended the group session as the host",
-      });
-    } else {
-      // Remove participant from session
-      currentSession.participants = currentSession.participants.filter(
-        p => p.userId !== currentUser.id
-      );
-      GroupProofManager.storeSession(currentSession);
-      
+    try {
+      if (membership === 'pending') {
+        await GroupProofManager.cancelJoinRequest(currentSession, currentUser.id);
+
+        toast({
+          title: "Request Cancelled",
+          description: "You withdrew your request to join",
+        });
+      } else if (membership === 'rejected' || membership === 'removed') {
+        await GroupProofManager.forgetSession(currentSession.sessionId);
+      } else if (currentSession.hostUserId === currentUser.id) {
+        // Host leaving - end session for everyone
+        await GroupProofManager.endSession(currentSession);
+        
+        toast({
+          title: "Session Ended",
+          description: "You ended the group session as the host",
+        });
+      } else {
+        // Remove participant from session
+        await GroupProofManager.leaveSession(currentSession, currentUser.id);
+        
+        toast({
+          title: "Left Session",
+          description: "You left the group session",
+        });
+      }
+    } catch (error) {
       toast({
-        title: "Left Session",
-        description: "You left the group session",
+        variant: "destructive",
+        title: "Failed to Leave Session",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
       });
+      return;
     }
     
     setCurrentSession(null);
     loadUserData();
   };
 
-  const refreshSession = () => {
+  const refreshSession = async () => {
     if (currentSession) {
-      const updated = GroupProofManager.getSession(currentSession.sessionId);
+      const updated = await GroupProofManager.getSession(currentSession.sessionId);
       if (updated && updated.status !== 'expired') {
         setCurrentSession(updated);
       } else {
@@ -247,8 +352,95 @@ export function useGroupSession() {
     loadUserData();
   };
 
-  const getQRData = (session: GroupSession) => {
+  // Pick up joins, leaves and new proofs written by other screens or tabs
+  useStoreChanges(['groupSessions', 'groupProofs'], () => {
+    loadUserData().catch(error => {
+      console.error('Failed to reload group sessions:', error);
+    });
+  });
+
+  // Stable so the host's QR code is only reissued when the session changes
+  const getQRData = useCallback((session: GroupSession) => {
     return GroupProofManager.generateQRData(session);
+  }, []);
+
+  // Rotates the invite key; the host then shows a QR code with a fresh invite token
+  const revokeInvitations = async () => {
+    if (!currentSession) return false;
+
+    try {
+      await GroupProofManager.revokeInvitations(currentSession);
+      toast({
+        title: "Invitations Revoked",
+        description: "Earlier QR codes no longer work. Share the new one.",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to Revoke Invitations",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+      return false;
+    }
+  };
+
+  // Host moderation: show the refreshed session or report why the server refused
+  const moderate = async (
+    failureTitle: string,
+    action: (session: GroupSession) => Promise<GroupSession>
+  ) => {
+    if (!currentSession) return false;
+
+    try {
+      setCurrentSession(await action(currentSession));
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+      return false;
+    }
+  };
+
+  const approveJoinRequest = (requestId: string) =>
+    moderate("Failed to Approve Request", session => GroupProofManager.approveJoinRequest(session, requestId));
+
+  const rejectJoinRequest = (requestId: string) =>
+    moderate("Failed to Reject Request", session => GroupProofManager.rejectJoinRequest(session, requestId));
+
+  const removeParticipant = async (userId: string) => {
+    const username = currentSession?.participants.find(p => p.userId === userId)?.username;
+    const removed = await moderate("Failed to Remove Participant", session =>
+      GroupProofManager.removeParticipant(session, userId)
+    );
+    if (removed) {
+      toast({
+        title: "Participant Removed",
+        description: `${username ?? 'The participant'} is no longer part of the session`,
+      });
+    }
+    return removed;
+  };
+
+  const toggleSessionLock = async () => {
+    if (!currentSession) return false;
+
+    const locked = !currentSession.locked;
+    const changed = await moderate(`Failed to ${locked ? 'Lock' : 'Unlock'} Session`, session =>
+      GroupProofManager.setSessionLocked(session, locked)
+    );
+    if (changed) {
+      toast({
+        title: locked ? "Session Locked 🔒" : "Session Unlocked",
+        description: locked
+          ? "No one else can join or be approved"
+          : "New participants can request to join again",
+      });
+    }
+    return changed;
   };
 
   const getActiveSessionsForEvent = (eventId: string) => {
@@ -258,6 +450,7 @@ export function useGroupSession() {
   return {
     // State
     currentSession,
+    membership,
     userSessions,
     groupProofs,
     currentUser,
@@ -273,6 +466,11 @@ export function useGroupSession() {
     leaveSession,
     refreshSession,
     getQRData,
+    revokeInvitations,
+    approveJoinRequest,
+    rejectJoinRequest,
+    removeParticipant,
+    toggleSessionLock,
     getActiveSessionsForEvent,
     loadUserData
   };
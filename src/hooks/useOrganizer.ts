@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BlockchainManager } from '@/lib/blockchain';
+import { EventCatalog, type CatalogEvent, type NewEventInput } from '@/lib/events';
+
+const organizerEventsKey = (organizerId: string | undefined) => ['organizer-events', organizerId] as const;
+
+export function useOrganizerEvents(organizerId: string | undefined) {
+  return useQuery({
+    queryKey: organizerEventsKey(organizerId),
+    queryFn: () => EventCatalog.listOrganizerEvents(organizerId!),
+    enabled: !!organizerId
+  });
+}
+
+// Only queried once a wallet is connected, since reads go through the signer
+export function useRegistryOwner(walletConnected: boolean) {
+  return useQuery({
+    queryKey: ['registry-owner', walletConnected],
+    queryFn: () => BlockchainManager.isRegistryOwner(),
+    enabled: walletConnected
+  });
+}
+
+export function useEventRegistration(eventId: string | undefined, walletConnected: boolean) {
+  return useQuery({
+    queryKey: ['event-registration', eventId],
+    queryFn: () => BlockchainManager.isEventRegistered(eventId!),
+    enabled: !!eventId && walletConnected
+  });
+}
+
+export function useEventProofs(eventId: string | undefined, walletConnected: boolean) {
+  return useQuery({
+    queryKey: ['event-proofs', eventId],
+    queryFn: () => BlockchainManager.getEventProofs(eventId!),
+    enabled: !!eventId && walletConnected
+  });
+}
+
+// Registers an existing catalog event's metadata on the registry contract
+export function useRegisterEventOnChain() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (event: CatalogEvent) =>
+      BlockchainManager.setEventMetadata(event.id, {
+        eventName: event.name,
+        eventDescription: event.description ?? '',
+        imageUri: event.image ?? '',
+        location: event.location,
+        eventDate: event.startsAt
+      }),
+    onSuccess: (_txHash, event) => {
+      queryClient.invalidateQueries({ queryKey: ['event-registration', event.id] });
+    }
+  });
+}
+
+export function useCreateEvent(organizerId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: NewEventInput) => {
+      if (!organizerId) {
+        throw new Error('Sign in to create events');
+      }
+      return EventCatalog.createEvent(organizerId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizerEventsKey(organizerId) });
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+    }
+  });
+}
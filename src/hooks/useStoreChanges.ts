@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+import { CredentialStore, type StoreChange, type StoreName } from '@/lib/credentialStore';
+
+// Run a callback whenever one of the given stores changes, in this tab or another
+export function useStoreChanges(stores: StoreName[], onChange: (change: StoreChange) => void) {
+  const callbackRef = useRef(onChange);
+  callbackRef.current = onChange;
+
+  const storeKey = stores.join(',');
+
+  useEffect(() => {
+    const watched = new Set(storeKey.split(','));
+    return CredentialStore.subscribe(change => {
+      if (watched.has(change.store)) {
+        callbackRef.current(change);
+      }
+    });
+  }, [storeKey]);
+}
@@ -0,0 +1,500 @@
+import { useState, useEffect } from 'react';
+import { ZKIdentityManager, type ZKCredential, type ZKIdentity, type ZKCoPresenceProof, type GroupProof } from '@/lib/zkIdentity';
+import { useToast } from '@/hooks/use-toast';
+import { BlockchainManager } from '@/lib/blockchain';
+import { CoPresenceManager } from '@/lib/coPresence';
+import type { SignedCheckIn } from '@/lib/checkIn';
+import { useStoreChanges } from '@/hooks/useStoreChanges';
+import { useCloudSync } from '@/hooks/useCloudSync';
+import { getUnlockedWallet, hasStoredWallet, lockWallet, unlockWallet } from '@/lib/wallet';
+import { SecureWallet } from '@/lib/secureWallet';
+
+// Owns ZK identity state for the whole app; consumers read it through useZKIdentity()
+export function useZKIdentityState() {
+  const [identity, setIdentity] = useState<ZKIdentity | null>(null);
+  const [credentials, setCredentials] = useState<ZKCredential[]>([]);
+  const [coPresenceProofs, setCoPresenceProofs] = useState<ZKCoPresenceProof[]>([]);
+  const [isGeneratingProof, setIsGeneratingProof] = useState(false);
+  const [isSubmittingToBlockchain, setIsSubmittingToBlockchain] = useState(false);
+  const [walletConnected, setWalletConnected] = useState(false);
+  // The recovery-phrase wallet stays unlocked for the session once the user enters their password
+  const [walletLocked, setWalletLocked] = useState(false);
+  const [unlockPromptOpen, setUnlockPromptOpen] = useState(false);
+  const [userNFTs, setUserNFTs] = useState<any[]>([]);
+  const [isLoadingNFTs, setIsLoadingNFTs] = useState(false);
+  const [showRewardScreen, setShowRewardScreen] = useState(false);
+  const [rewardData, setRewardData] = useState<{
+    eventName: string;
+    nftImage?: string;
+    txHash?: string;
+  } | null>(null);
+  const { toast } = useToast();
+  const cloudSync = useCloudSync({
+    locked: walletLocked,
+    onUnlockRequired: () => setUnlockPromptOpen(true)
+  });
+
+  useEffect(() => {
+    // Load identity, credentials, and co-presence proofs on mount
+    const initializeData = async () => {
+      try {
+        setCredentials(await ZKIdentityManager.getStoredCredentials());
+        setCoPresenceProofs(await ZKIdentityManager.getStoredCoPresenceProofs());
+
+        // After a reload the wallet is locked; ask for the password instead of failing
+        if (!getUnlockedWallet() && await hasStoredWallet()) {
+          // Still scrubs secrets that older versions left in the identity store
+          await ZKIdentityManager.getStoredIdentity();
+          setWalletLocked(true);
+          setUnlockPromptOpen(true);
+        } else {
+          setIdentity(await ZKIdentityManager.getOrCreateIdentity());
+        }
+
+        // Check wallet connection
+        checkWalletConnection();
+      } catch (error) {
+        console.error('Failed to initialize ZK identity data:', error);
+        toast({
+          variant: "destructive",
+          title: "Initialization Failed",
+          description: "Failed to load ZK identity. Some features may not work properly.",
+        });
+      }
+    };
+
+    initializeData();
+  }, []);
+
+  // Keep every screen and tab in step with the shared store
+  useStoreChanges(['identity', 'credentials', 'copresenceProofs'], async ({ store }) => {
+    try {
+      if (store === 'credentials') {
+        setCredentials(await ZKIdentityManager.getStoredCredentials());
+      } else if (store === 'copresenceProofs') {
+        setCoPresenceProofs(await ZKIdentityManager.getStoredCoPresenceProofs());
+      } else {
+        setIdentity(await ZKIdentityManager.getOrCreateIdentity().catch(() => null));
+      }
+    } catch (error) {
+      console.error('Failed to reload ZK identity data:', error);
+    }
+  });
+
+  // Decrypt the wallet for the rest of the session and restore the identity from it
+  const unlockSession = async (password: string) => {
+    await unlockWallet(password);
+    // Credentials kept in the secure wallet share the session
+    await SecureWallet.tryUnlock(password);
+    setIdentity(await ZKIdentityManager.getOrCreateIdentity());
+    setWalletLocked(false);
+    setUnlockPromptOpen(false);
+
+    toast({
+      title: "Wallet Unlocked 🔓",
+      description: "Your ZK identity is ready",
+    });
+  };
+
+  // Drop the decrypted wallet and identity from memory, e.g. on sign-out
+  const lockSession = () => {
+    lockWallet();
+    SecureWallet.lock();
+    setIdentity(null);
+    setWalletLocked(true);
+  };
+
+  const requestUnlock = () => {
+    setUnlockPromptOpen(true);
+  };
+
+  const loadUserNFTs = async () => {
+    if (!walletConnected) return;
+    
+    setIsLoadingNFTs(true);
+    try {
+      const userAddress = await BlockchainManager.getAddress();
+      if (userAddress) {
+        const nfts = await BlockchainManager.getUserNFTs(userAddress);
+        setUserNFTs(nfts);
+      }
+    } catch (error) {
+      console.error('Failed to load user NFTs:', error);
+    } finally {
+      setIsLoadingNFTs(false);
+    }
+  };
+
+  const checkWalletConnection = async () => {
+    const connected = await BlockchainManager.isConnected();
+    setWalletConnected(connected);
+  };
+
+  const connectWallet = async () => {
+    const connected = await BlockchainManager.connectWallet();
+    setWalletConnected(connected);
+    
+    if (connected) {
+      toast({
+        title: "Wallet Connected! 🔗",
+        description: "You can now submit proofs to the blockchain",
+      });
+      // Load user NFTs after connecting
+      loadUserNFTs();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Connection Failed",
+        description: "Please install MetaMask and try again",
+      });
+    }
+    
+    return connected;
+  };
+
+  const generateEventCredential = async (
+    eventId: string,
+    eventName: string,
+    metadata?: ZKCredential['metadata'],
+    checkIn?: SignedCheckIn
+  ) => {
+    if (isGeneratingProof) return;
+
+    if (!getUnlockedWallet()) {
+      setUnlockPromptOpen(true);
+      throw new Error('Unlock your wallet to generate credentials');
+    }
+
+    setIsGeneratingProof(true);
+    
+    try {
+      toast({
+        title: "Generating ZK Proof",
+        description: "Creating attendance credential for " + eventName,
+      });
+
+      const credential = await ZKIdentityManager.generateEventCredential(
+        eventId,
+        eventName,
+        metadata,
+        checkIn
+      );
+
+      setCredentials(prev => prev.some(c => c.id === credential.id) ? prev : [...prev, credential]);
+
+      toast({
+        title: "Credential Generated! 🎫",
+        description: `Successfully created proof for ${eventName}`,
+      });
+
+      // Trigger confetti animation
+      if (typeof window !== 'undefined') {
+        import('canvas-confetti').then(confetti => {
+          confetti.default({
+            particleCount: 100,
+            spread: 70,
+            origin: { y: 0.6 },
+            colors: ['#8B5CF6', '#06B6D4', '#10B981', '#F59E0B']
+          });
+        });
+      }
+
+      return credential;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Proof Generation Failed",
+        description: error instanceof Error && error.message.includes('already claimed')
+          ? "You have already claimed attendance for this event"
+          : "Failed to generate ZK credential. Please try again.",
+      });
+      throw error;
+    } finally {
+      setIsGeneratingProof(false);
+    }
+  };
+
+  const verifyCredential = async (credential: ZKCredential) => {
+    try {
+      const isValid = await ZKIdentityManager.verifyCredential(credential);
+      
+      toast({
+        title: isValid ? "Credential Valid ✅" : "Credential Invalid ❌",
+        description: isValid 
+          ? "The ZK proof is cryptographically valid" 
+          : "The ZK proof verification failed",
+      });
+
+      return isValid;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Verification Failed",
+        description: "Failed to verify credential. Please try again.",
+      });
+      return false;
+    }
+  };
+
+  // Stores a completed co-presence handshake; both signatures must check out
+  const saveCoPresenceProof = async (proof: ZKCoPresenceProof) => {
+    try {
+      if (!CoPresenceManager.verifyProof(proof)) {
+        throw new Error('Co-presence proof failed verification');
+      }
+
+      await ZKIdentityManager.storeCoPresenceProof(proof);
+      setCoPresenceProofs(prev => prev.some(p => p.eventId === proof.eventId) ? prev : [...prev, proof]);
+
+      const peer = proof.role === 'initiator' ? proof.usernameB : proof.usernameA;
+      toast({
+        title: "Co-Presence Proof Generated! 🤝",
+        description: `You and ${peer} both signed proof of meeting`,
+      });
+
+      // Trigger confetti animation
+      if (typeof window !== 'undefined') {
+        import('canvas-confetti').then(confetti => {
+          confetti.default({
+            particleCount: 100,
+            spread: 70,
+            origin: { y: 0.6 },
+            colors: ['#8B5CF6', '#06B6D4', '#10B981', '#F59E0B']
+          });
+        });
+      }
+
+      return proof;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Proof Generation Failed",
+        description: "Failed to save co-presence proof. Please try again.",
+      });
+      throw error;
+    }
+  };
+
+  const submitProofToBlockchain = async (credential: ZKCredential) => {
+    if (!walletConnected) {
+      const connected = await connectWallet();
+      if (!connected) return null;
+    }
+
+    setIsSubmittingToBlockchain(true);
+    
+    try {
+      toast({
+        title: "Submitting to Polygon zkEVM ⛓️",
+        description: "Publishing your proof on-chain...",
+      });
+
+      const result = await BlockchainManager.submitProofToBlockchain(
+        credential.eventId,
+        credential.proof,
+        credential.publicSignals,
+        credential.checkIn
+      );
+
+      if (result) {
+        toast({
+          title: "Proof Submitted! 🎉",
+          description: `Transaction: ${result.txHash.slice(0, 10)}...`,
+        });
+
+        // Show reward screen with transaction info
+        setRewardData({
+          eventName: credential.eventName,
+          nftImage: credential.metadata?.image,
+          txHash: result.txHash
+        });
+        setShowRewardScreen(true);
+
+        return result;
+      } else {
+        throw new Error('Failed to submit to blockchain');
+      }
+    } catch (error: any) {
+      let errorMessage = "Please try again or check your wallet";
+      
+      if (error.message?.includes('Insufficient ETH')) {
+        errorMessage = "Insufficient ETH for gas fees. Get testnet ETH from faucet.";
+      } else if (error.message?.includes('rejected')) {
+        errorMessage = "Transaction was rejected";
+      } else if (error.message?.includes('already submitted')) {
+        errorMessage = "This proof has already been submitted";
+      } else if (error.message?.includes('already been claimed')) {
+        errorMessage = "Attendance for this event has already been claimed";
+      } else if (['verifier', 'different event', 'Groth16', 'attendance proof', 'check-in'].some(reason => error.message?.includes(reason))) {
+        errorMessage = error.message;
+      }
+
+      toast({
+        variant: "destructive",
+        title: "Blockchain Submission Failed",
+        description: errorMessage,
+      });
+      throw error;
+    } finally {
+      setIsSubmittingToBlockchain(false);
+    }
+  };
+
+  const submitGroupProofToBlockchain = async (groupProof: GroupProof) => {
+    if (!walletConnected) {
+      const connected = await connectWallet();
+      if (!connected) return null;
+    }
+
+    setIsSubmittingToBlockchain(true);
+    
+    try {
+      toast({
+        title: "Submitting Group Proof ⛓️",
+        description: `Publishing proof for ${groupProof.participants.length} participants...`,
+      });
+
+      const result = await BlockchainManager.submitGroupProofToBlockchain(groupProof);
+
+      if (result) {
+        toast({
+          title: "Group Proof Submitted! 🎉",
+          description: `Transaction: ${result.txHash.slice(0, 10)}...`,
+        });
+
+        // Show reward screen for group proof
+        setRewardData({
+          eventName: `${groupProof.eventName} (Group)`,
+          nftImage: undefined,
+          txHash: result.txHash
+        });
+        setShowRewardScreen(true);
+
+        return result;
+      } else {
+        throw new Error('Failed to submit group proof to blockchain');
+      }
+    } catch (error: any) {
+      let errorMessage = "Please try again or check your wallet";
+      
+      if (error.message?.includes('Insufficient ETH')) {
+        errorMessage = "Insufficient ETH for gas fees";
+      } else if (error.message?.includes('rejected')) {
+        errorMessage = "Transaction was rejected";
+      }
+
+      toast({
+        variant: "destructive",
+        title: "Group Proof Submission Failed",
+        description: errorMessage,
+      });
+      throw error;
+    } finally {
+      setIsSubmittingToBlockchain(false);
+    }
+  };
+
+  const getBlockchainStats = async () => {
+    try {
+      const totalProofs = await BlockchainManager.getTotalProofs();
+      const userAddress = await BlockchainManager.getAddress();
+      const userProofs = userAddress ? await BlockchainManager.getUserProofs(userAddress) : [];
+      const userNFTCount = userAddress ? await BlockchainManager.getUserNFTCount(userAddress) : 0;
+      
+      return {
+        totalOnChainProofs: totalProofs,
+        userOnChainProofs: userProofs.length,
+        userNFTCount
+      };
+    } catch (error) {
+      return {
+        totalOnChainProofs: 0,
+        userOnChainProofs: 0,
+        userNFTCount: 0
+      };
+    }
+  };
+
+  const exportCredentials = async () => {
+    try {
+      const data = await ZKIdentityManager.exportCredentials();
+      
+      // Create download link
+      const blob = new Blob([data], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `zk-credentials-${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Credentials Exported 📁",
+        description: "Your ZK credentials have been exported successfully",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: "Failed to export credentials. Please try again.",
+      });
+    }
+  };
+
+  const getStats = () => {
+    return ZKIdentityManager.getIdentityStats(credentials);
+  };
+
+  const clearAll = async () => {
+    await ZKIdentityManager.clearAll();
+    // Re-deriving the identity needs an unlocked wallet
+    const newIdentity = await ZKIdentityManager.getOrCreateIdentity().catch(() => null);
+    setIdentity(newIdentity);
+    setCredentials([]);
+    setCoPresenceProofs([]);
+    
+    toast({
+      title: "Data Cleared",
+      description: "All ZK identity data has been cleared",
+    });
+  };
+
+  const closeRewardScreen = () => {
+    setShowRewardScreen(false);
+    setRewardData(null);
+  };
+
+  return {
+    identity,
+    credentials,
+    coPresenceProofs,
+    userNFTs,
+    isGeneratingProof,
+    isSubmittingToBlockchain,
+    isLoadingNFTs,
+    walletConnected,
+    walletLocked,
+    unlockPromptOpen,
+    showRewardScreen,
+    rewardData,
+    generateEventCredential,
+    saveCoPresenceProof,
+    verifyCredential,
+    exportCredentials,
+    getStats,
+    clearAll,
+    connectWallet,
+    submitProofToBlockchain,
+    submitGroupProofToBlockchain,
+    getBlockchainStats,
+    loadUserNFTs,
+    closeRewardScreen,
+    unlockSession,
+    lockSession,
+    requestUnlock,
+    setUnlockPromptOpen,
+    cloudSync
+  };
+}
+
+export type ZKIdentityState = ReturnType<typeof useZKIdentityState>;
@@ -14,6 +14,381 @@ export type Database = {
   }
   public: {
     Tables: {
+      encrypted_records: {
+        Row: {
+          created_at: string
+          deleted: boolean
+          id: string
+          modified_at: number
+          payload: Json | null
+          record_key: string
+          record_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deleted?: boolean
+          id?: string
+          modified_at: number
+          payload?: Json | null
+          record_key: string
+          record_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deleted?: boolean
+          id?: string
+          modified_at?: number
+          payload?: Json | null
+          record_key?: string
+          record_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      event_attendance: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          nullifier: string
+          status: string
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          nullifier: string
+          status?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          nullifier?: string
+          status?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendance_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          attendee_count: number
+          category: string
+          created_at: string
+          description: string | null
+          ends_at: string
+          id: string
+          image: string | null
+          location: string
+          name: string
+          organizer: string
+          organizer_address: string | null
+          organizer_id: string | null
+          requires_proof: boolean
+          starts_at: string
+          updated_at: string
+        }
+        Insert: {
+          attendee_count?: number
+          category?: string
+          created_at?: string
+          description?: string | null
+          ends_at: string
+          id?: string
+          image?: string | null
+          location: string
+          name: string
+          organizer: string
+          organizer_address?: string | null
+          organizer_id?: string | null
+          requires_proof?: boolean
+          starts_at: string
+          updated_at?: string
+        }
+        Update: {
+          attendee_count?: number
+          category?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string
+          id?: string
+          image?: string | null
+          location?: string
+          name?: string
+          organizer?: string
+          organizer_address?: string | null
+          organizer_id?: string | null
+          requires_proof?: boolean
+          starts_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      group_join_requests: {
+        Row: {
+          commitment: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          invite_max_participants: number
+          nullifier: string
+          requested_at: string
+          session_id: string
+          status: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          commitment: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          invite_max_participants?: number
+          nullifier: string
+          requested_at?: string
+          session_id: string
+          status?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          commitment?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          invite_max_participants?: number
+          nullifier?: string
+          requested_at?: string
+          session_id?: string
+          status?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_join_requests_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_participants: {
+        Row: {
+          commitment: string
+          id: string
+          is_host: boolean
+          joined_at: string
+          nullifier: string
+          session_id: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          commitment: string
+          id?: string
+          is_host?: boolean
+          joined_at?: string
+          nullifier: string
+          session_id: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          commitment?: string
+          id?: string
+          is_host?: boolean
+          joined_at?: string
+          nullifier?: string
+          session_id?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_participants_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_proof_publications: {
+        Row: {
+          group_proof_id: string
+          hash_algorithm: string
+          inclusion_paths: Json
+          merkle_depth: number
+          merkle_root: string
+          proof: string
+          published_at: string
+          session_id: string
+        }
+        Insert: {
+          group_proof_id: string
+          hash_algorithm: string
+          inclusion_paths: Json
+          merkle_depth: number
+          merkle_root: string
+          proof: string
+          published_at?: string
+          session_id: string
+        }
+        Update: {
+          group_proof_id?: string
+          hash_algorithm?: string
+          inclusion_paths?: Json
+          merkle_depth?: number
+          merkle_root?: string
+          proof?: string
+          published_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_proof_publications_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_session_audit: {
+        Row: {
+          action: string
+          actor_user_id: string | null
+          created_at: string
+          detail: string | null
+          id: number
+          session_id: string
+          subject_user_id: string | null
+          subject_username: string | null
+        }
+        Insert: {
+          action: string
+          actor_user_id?: string | null
+          created_at?: string
+          detail?: string | null
+          id?: never
+          session_id: string
+          subject_user_id?: string | null
+          subject_username?: string | null
+        }
+        Update: {
+          action?: string
+          actor_user_id?: string | null
+          created_at?: string
+          detail?: string | null
+          id?: never
+          session_id?: string
+          subject_user_id?: string | null
+          subject_username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_session_audit_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_session_invite_keys: {
+        Row: {
+          invite_key: string
+          rotated_at: string
+          session_id: string
+        }
+        Insert: {
+          invite_key: string
+          rotated_at?: string
+          session_id: string
+        }
+        Update: {
+          invite_key?: string
+          rotated_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_session_invite_keys_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_sessions: {
+        Row: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location?: string | null
+          locked?: boolean
+          max_participants?: number
+          min_participants?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          event_name?: string
+          expires_at?: string
+          host_user_id?: string
+          id?: string
+          location?: string | null
+          locked?: boolean
+          max_participants?: number
+          min_participants?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -49,7 +424,157 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      approve_group_join_request: {
+        Args: { p_request_id: string }
+        Returns: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+      }
+      create_group_session: {
+        Args: {
+          p_commitment: string
+          p_event_id: string
+          p_event_name: string
+          p_expires_at: string
+          p_location: string | null
+          p_max_participants: number
+          p_min_participants: number
+          p_nullifier: string
+          p_session_id: string
+          p_username: string
+        }
+        Returns: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+      }
+      end_group_session: {
+        Args: { p_session_id: string }
+        Returns: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+      }
+      finalize_group_session: {
+        Args: {
+          p_commitments: string[]
+          p_group_proof_id: string
+          p_hash_algorithm: string
+          p_inclusion_paths: Json
+          p_merkle_depth: number
+          p_merkle_root: string
+          p_proof: string
+          p_session_id: string
+        }
+        Returns: {
+          commitment: string
+          id: string
+          is_host: boolean
+          joined_at: string
+          nullifier: string
+          session_id: string
+          user_id: string
+          username: string
+        }[]
+      }
+      has_group_join_request: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      is_group_member: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      join_group_session: {
+        Args: {
+          p_commitment: string
+          p_event_id: string
+          p_invite_expires_at: number
+          p_invite_max_participants: number
+          p_invite_signature: string
+          p_nullifier: string
+          p_session_id: string
+          p_username: string
+        }
+        Returns: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+      }
+      reject_group_join_request: {
+        Args: { p_request_id: string }
+        Returns: {
+          commitment: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          invite_max_participants: number
+          nullifier: string
+          requested_at: string
+          session_id: string
+          status: string
+          user_id: string
+          username: string
+        }
+      }
+      set_group_session_locked: {
+        Args: { p_locked: boolean; p_session_id: string }
+        Returns: {
+          created_at: string
+          event_id: string
+          event_name: string
+          expires_at: string
+          host_user_id: string
+          id: string
+          location: string | null
+          locked: boolean
+          max_participants: number
+          min_participants: number
+          status: string
+          updated_at: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,7 +1,10 @@
 // Real Blockchain integration for ZK proof submission on Polygon zkEVM testnet
 import { ethers } from 'ethers';
 import contractDeployment from '@/contracts/deployment.json';
+import type { Groth16Proof } from 'snarkjs';
+import { CIRCUIT_SIGNALS } from '@/circuits/signals';
 import type { GroupProof } from '@/lib/groupProofs';
+import { CheckInManager, type SignedCheckIn } from '@/lib/checkIn';
 
 // Chain configuration for Polygon zkEVM testnet
 const POLYGON_ZKEVM_TESTNET = {
@@ -16,6 +19,31 @@ const POLYGON_ZKEVM_TESTNET = {
   blockExplorerUrls: ['https://testnet-zkevm.polygonscan.com/'],
 };
 
+export interface EventMetadataInput {
+  eventName: string;
+  eventDescription: string;
+  imageUri: string;
+  location: string;
+  eventDate: Date;
+}
+
+export interface OnChainProof {
+  proofId: string;
+  commitment: string;
+  eventId: string;
+  submitter: string;
+  timestamp: number;
+  isValid: boolean;
+  nftTokenId: string;
+}
+
+export interface Groth16Calldata {
+  pA: [string, string];
+  pB: [[string, string], [string, string]];
+  pC: [string, string];
+  pubSignals: string[];
+}
+
 interface TransactionStatus {
   hash: string;
   status: 'pending' | 'confirmed' | 'failed';
@@ -138,37 +166,72 @@ export class BlockchainManager {
     return { signer: this.signer!, contract: this.contract };
   }
 
+  // Attendance proof in the on-chain verifier's calldata layout
+  static encodeAttendanceProof(proof: string | Uint8Array, publicSignals: string[]): Groth16Calldata {
+    if (typeof proof !== 'string') {
+      throw new Error('Only Groth16 proofs from the in-browser prover can be verified on-chain');
+    }
+    if (publicSignals.length !== CIRCUIT_SIGNALS.event_attendance.publicSignals.length) {
+      throw new Error('Credential is not an event attendance proof');
+    }
+
+    let parsed: Groth16Proof;
+    try {
+      parsed = JSON.parse(proof) as Groth16Proof;
+    } catch {
+      throw new Error('Credential proof is not a Groth16 proof');
+    }
+
+    return {
+      pA: [parsed.pi_a[0], parsed.pi_a[1]],
+      // G2 coordinates are (c1, c0) for the EVM pairing precompile
+      pB: [
+        [parsed.pi_b[0][1], parsed.pi_b[0][0]],
+        [parsed.pi_b[1][1], parsed.pi_b[1][0]]
+      ],
+      pC: [parsed.pi_c[0], parsed.pi_c[1]],
+      pubSignals: publicSignals
+    };
+  }
+
   static async submitProofToBlockchain(
     eventId: string, 
-    proof: string | Uint8Array
+    proof: string | Uint8Array,
+    publicSignals: string[],
+    checkIn?: SignedCheckIn
   ): Promise<{ txHash: string; status: TransactionStatus; nftTokenId?: string } | null> {
     try {
-      const { signer, contract } = await this.getContractWithSigner();
-      
-      // Convert proof to bytes format for the contract
-      let proofBytes: string;
-      if (typeof proof === 'string') {
-        // If it's a hex string, use as is, otherwise convert
-        proofBytes = proof.startsWith('0x') ? proof : ethers.hexlify(ethers.toUtf8Bytes(proof));
-      } else {
-        // Convert Uint8Array to hex string
-        proofBytes = ethers.hexlify(proof);
+      // The registry recovers the organizer's signature over the check-in the proof commits to
+      if (!checkIn) {
+        throw new Error('Only attendance proofs from a kiosk check-in can be submitted on-chain');
       }
+      if (!CheckInManager.isWithinWindow(checkIn)) {
+        throw new Error('The check-in code for this proof has expired and can no longer be submitted on-chain');
+      }
+
+      const { signer, contract } = await this.getContractWithSigner();
+      const { pA, pB, pC, pubSignals } = this.encodeAttendanceProof(proof, publicSignals);
+      const checkInArg = {
+        notBefore: checkIn.challenge.notBefore,
+        notAfter: checkIn.challenge.notAfter,
+        nonce: checkIn.challenge.nonce,
+        signature: checkIn.signature
+      };
       
       console.log('📤 Submitting proof to Polygon zkEVM:', { 
         eventId, 
-        proofLength: proofBytes.length,
+        nullifier: this.toBytes32(pubSignals[0]),
         contractAddress: await contract.getAddress()
       });
 
       // Estimate gas first
-      const gasEstimate = await contract.submitProof.estimateGas(eventId, proofBytes);
+      const gasEstimate = await contract.submitProof.estimateGas(eventId, pA, pB, pC, pubSignals, checkInArg);
       const gasLimit = gasEstimate * 120n / 100n; // Add 20% buffer
       
       console.log('⛽ Gas estimate:', gasEstimate.toString());
 
       // Submit proof to contract with gas limit
-      const tx = await contract.submitProof(eventId, proofBytes, {
+      const tx = await contract.submitProof(eventId, pA, pB, pC, pubSignals, checkInArg, {
         gasLimit: gasLimit
       });
       
@@ -202,6 +265,19 @@ export class BlockchainManager {
         throw new Error('Transaction was rejected by user');
       } else if (error.message?.includes('Proof already submitted')) {
         throw new Error('This proof has already been submitted');
+      } else if (error.message?.includes('Nullifier already used')) {
+        throw new Error('Attendance for this event has already been claimed');
+      } else if (error.message?.includes('Invalid proof')) {
+        throw new Error('The on-chain verifier did not accept this proof');
+      } else if (error.message?.includes('Proof is for a different event')) {
+        throw new Error('This proof was generated for a different event');
+      } else if (error.message?.includes('Check-in has expired') || error.message?.includes('Check-in is not valid yet')) {
+        throw new Error('The check-in code for this proof has expired and can no longer be submitted on-chain');
+      } else if (
+        ['Event has no organizer', 'Check-in not signed by the organizer', 'Proof is for a different check-in']
+          .some(reason => error.message?.includes(reason))
+      ) {
+        throw new Error('The registry did not accept this check-in for the event');
       }
       
       throw error;
@@ -273,16 +349,14 @@ export class BlockchainManager {
       // Create a combined eventId for group proof
       const groupEventId = `${groupProof.eventId}_group_${groupProof.participants.length}`;
       
-      // Convert merkle root to bytes format
-      const proofBytes = ethers.hexlify(ethers.toUtf8Bytes(groupProof.merkleRoot));
-      
       console.log('📤 Submitting group proof to blockchain:', {
         eventId: groupEventId,
         participants: groupProof.participants.length,
         merkleRoot: groupProof.merkleRoot
       });
 
-      const tx = await contract.submitProof(groupEventId, proofBytes);
+      // Group membership is not a ZK proof, so the root is anchored without minting
+      const tx = await contract.anchorGroupRoot(groupEventId, groupProof.merkleRoot);
       console.log('📋 Group proof transaction:', tx.hash);
       
       return {
@@ -354,6 +428,91 @@ export class BlockchainManager {
     }
   }
 
+  static async isNullifierUsed(nullifier: string): Promise<boolean> {
+    try {
+      const { contract } = await this.getContractWithSigner();
+      return await contract.nullifierUsed(this.toBytes32(nullifier));
+    } catch (error) {
+      console.error('Failed to check nullifier:', error);
+      return false;
+    }
+  }
+
+  // Event metadata can only be written by the registry owner
+  static async isRegistryOwner(): Promise<boolean> {
+    try {
+      const { signer, contract } = await this.getContractWithSigner();
+      const [owner, address] = await Promise.all([contract.owner(), signer.getAddress()]);
+      return owner.toLowerCase() === address.toLowerCase();
+    } catch (error) {
+      console.error('Failed to check registry owner:', error);
+      return false;
+    }
+  }
+
+  static async setEventMetadata(eventId: string, metadata: EventMetadataInput): Promise<string> {
+    try {
+      const { contract } = await this.getContractWithSigner();
+      const tx = await contract.setEventMetadata(
+        eventId,
+        metadata.eventName,
+        metadata.eventDescription,
+        metadata.imageUri,
+        metadata.location,
+        BigInt(Math.floor(metadata.eventDate.getTime() / 1000))
+      );
+
+      console.log('📋 Event metadata transaction:', tx.hash);
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      console.error('❌ Failed to set event metadata:', error);
+
+      if (ethers.isError(error, 'ACTION_REJECTED')) {
+        throw new Error('Transaction was rejected by user');
+      } else if (error instanceof Error && error.message.includes('caller is not the owner')) {
+        throw new Error('Only the registry owner can register events');
+      }
+
+      throw error;
+    }
+  }
+
+  static async isEventRegistered(eventId: string): Promise<boolean> {
+    try {
+      const { contract } = await this.getContractWithSigner();
+      const metadata = await contract.eventMetadata(eventId);
+      return metadata.eventName.length > 0;
+    } catch (error) {
+      console.error('Failed to get event metadata:', error);
+      return false;
+    }
+  }
+
+  static async getEventProofs(eventId: string): Promise<OnChainProof[]> {
+    const { contract } = await this.getContractWithSigner();
+    const proofIds: bigint[] = await contract.getEventProofs(eventId);
+
+    return Promise.all(proofIds.map(async proofId => {
+      const [commitment, proofEventId, submitter, timestamp, isValid, nftTokenId] = await contract.getProof(proofId);
+      return {
+        proofId: proofId.toString(),
+        commitment,
+        eventId: proofEventId,
+        submitter,
+        timestamp: Number(timestamp) * 1000,
+        isValid,
+        nftTokenId: nftTokenId.toString()
+      };
+    }));
+  }
+
+  // Normalize a hex signal (with or without 0x) to bytes32
+  private static toBytes32(value: string): string {
+    const hex = value.startsWith('0x') ? value : '0x' + value;
+    return ethers.zeroPadValue(hex, 32);
+  }
+
   static getContractUrl(): string {
     return `${contractDeployment.explorerUrl}/address/${contractDeployment.contractAddress}`;
   }
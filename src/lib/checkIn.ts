@@ -0,0 +1,160 @@
+// Organizer check-in challenges for the kiosk QR code
+// The kiosk signs an EIP-712 challenge (eventId, validity window, nonce) with the
+// organizer's wallet and rotates it every few seconds. Attendees verify the
+// signature against the event's registered organizer address before it is fed
+// into their attendance credential. The registry contract checks the same signature
+// and validity window again when the credential is submitted on-chain.
+
+import { ethers } from 'ethers';
+import deploymentInfo from '@/contracts/deployment.json';
+import { EventCatalog, type CatalogEvent } from './events';
+
+export interface CheckInChallenge {
+  eventId: string;
+  // Unix seconds
+  notBefore: number;
+  notAfter: number;
+  nonce: string;
+}
+
+export interface SignedCheckIn {
+  challenge: CheckInChallenge;
+  signature: string;
+  // Recovered signer, filled in by verification
+  organizer: string;
+}
+
+export const CHECK_IN_QR_TYPE = 'zk-checkin';
+const CHECK_IN_VERSION = 1;
+
+const SNARK_SCALAR_FIELD = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
+// Tolerated clock difference between kiosk and attendee devices
+const CLOCK_SKEW_SECONDS = 15;
+
+const CHECK_IN_DOMAIN: ethers.TypedDataDomain = {
+  name: 'ZKPresence Check-In',
+  version: '1',
+  chainId: deploymentInfo.chainId,
+  // Lowercased so ethers skips checksum validation of the configured address
+  verifyingContract: deploymentInfo.contractAddress.toLowerCase()
+};
+
+const CHECK_IN_TYPES: Record<string, ethers.TypedDataField[]> = {
+  CheckIn: [
+    { name: 'eventId', type: 'string' },
+    { name: 'notBefore', type: 'uint64' },
+    { name: 'notAfter', type: 'uint64' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+};
+
+interface CheckInQRPayload {
+  type: typeof CHECK_IN_QR_TYPE;
+  version: number;
+  eventId: string;
+  notBefore: number;
+  notAfter: number;
+  nonce: string;
+  signature: string;
+}
+
+class CheckInManager {
+  // Sign a fresh challenge valid for validitySeconds from now
+  static async issueChallenge(
+    signer: ethers.Signer,
+    eventId: string,
+    validitySeconds: number
+  ): Promise<SignedCheckIn> {
+    const now = Math.floor(Date.now() / 1000);
+    const challenge: CheckInChallenge = {
+      eventId,
+      notBefore: now,
+      notAfter: now + validitySeconds,
+      nonce: ethers.hexlify(ethers.randomBytes(32))
+    };
+
+    const signature = await signer.signTypedData(CHECK_IN_DOMAIN, CHECK_IN_TYPES, challenge);
+    return { challenge, signature, organizer: await signer.getAddress() };
+  }
+
+  static encodeQRPayload({ challenge, signature }: SignedCheckIn): string {
+    const payload: CheckInQRPayload = {
+      type: CHECK_IN_QR_TYPE,
+      version: CHECK_IN_VERSION,
+      ...challenge,
+      signature
+    };
+    return JSON.stringify(payload);
+  }
+
+  static isCheckInPayload(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === CHECK_IN_QR_TYPE;
+  }
+
+  // Validate a scanned payload against the event's organizer; throws with a user-facing reason
+  static async verifyScannedChallenge(data: unknown): Promise<{ event: CatalogEvent; checkIn: SignedCheckIn }> {
+    const payload = this.parsePayload(data);
+    const challenge: CheckInChallenge = {
+      eventId: payload.eventId,
+      notBefore: payload.notBefore,
+      notAfter: payload.notAfter,
+      nonce: payload.nonce
+    };
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now < challenge.notBefore - CLOCK_SKEW_SECONDS) {
+      throw new Error('Check-in code is not valid yet');
+    }
+    if (now > challenge.notAfter + CLOCK_SKEW_SECONDS) {
+      throw new Error('Check-in code has expired, scan the current one');
+    }
+
+    let organizer: string;
+    try {
+      organizer = ethers.verifyTypedData(CHECK_IN_DOMAIN, CHECK_IN_TYPES, challenge, payload.signature);
+    } catch {
+      throw new Error('Check-in code has an invalid signature');
+    }
+
+    const event = await EventCatalog.getEvent(challenge.eventId);
+    if (!event) {
+      throw new Error('Unknown event');
+    }
+    if (!event.organizerAddress || event.organizerAddress.toLowerCase() !== organizer.toLowerCase()) {
+      throw new Error('Check-in code was not signed by the event organizer');
+    }
+
+    return { event, checkIn: { challenge, signature: payload.signature, organizer } };
+  }
+
+  // EIP-712 hash of the challenge reduced into the SNARK field: the credential's public
+  // check-in signal, which the registry recomputes before recovering the organizer
+  static challengeDigest({ challenge }: SignedCheckIn): string {
+    const typedDataHash = ethers.TypedDataEncoder.hash(CHECK_IN_DOMAIN, CHECK_IN_TYPES, challenge);
+    return ethers.toBeHex(BigInt(typedDataHash) % SNARK_SCALAR_FIELD, 32);
+  }
+
+  // The registry only accepts a check-in inside its signed window
+  static isWithinWindow({ challenge }: SignedCheckIn, now = Math.floor(Date.now() / 1000)): boolean {
+    return now >= challenge.notBefore && now <= challenge.notAfter;
+  }
+
+  private static parsePayload(data: unknown): CheckInQRPayload {
+    const payload = data as Partial<CheckInQRPayload>;
+    if (
+      !this.isCheckInPayload(data) ||
+      payload.version !== CHECK_IN_VERSION ||
+      typeof payload.eventId !== 'string' ||
+      typeof payload.notBefore !== 'number' ||
+      typeof payload.notAfter !== 'number' ||
+      typeof payload.nonce !== 'string' ||
+      typeof payload.signature !== 'string'
+    ) {
+      throw new Error('Unsupported check-in code');
+    }
+    return payload as CheckInQRPayload;
+  }
+}
+
+export { CheckInManager };
@@ -0,0 +1,259 @@
+// End-to-end encrypted cloud backup of credentials and proofs
+// Records are encrypted with a key derived from the wallet's private key before
+// upload and stored under blinded ids, so Supabase only ever holds ciphertext.
+// Conflicts resolve last-write-wins on the client modification time, and local
+// deletions are uploaded as tombstones so they propagate to other devices.
+
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { CredentialStore, type StoreName } from './credentialStore';
+import {
+  decryptWithKey,
+  deriveKeyFromSecret,
+  encryptWithKey,
+  isEncryptedEnvelope
+} from './encryption';
+import { getUnlockedWallet } from './wallet';
+
+export type SyncRecordType = 'credential' | 'copresence_proof' | 'group_proof';
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  deleted: number;
+}
+
+// Local bookkeeping for one synced record
+interface SyncState {
+  key: string;
+  type: SyncRecordType;
+  id: string;
+  hash: string;
+  modifiedAt: number;
+  deleted: boolean;
+}
+
+interface LocalEntry {
+  state: SyncState;
+  record?: Record<string, unknown>;
+}
+
+type RemoteRecord = Pick<Tables<'encrypted_records'>, 'record_key' | 'record_type' | 'payload' | 'deleted' | 'modified_at'>;
+
+const RECORD_STORES: Record<SyncRecordType, { store: StoreName; idField: string }> = {
+  credential: { store: 'credentials', idField: 'id' },
+  copresence_proof: { store: 'copresenceProofs', idField: 'eventId' },
+  group_proof: { store: 'groupProofs', idField: 'id' }
+};
+
+const SYNC_CONTEXT = 'zk-cloud-sync';
+const SYNC_KEY_INFO = 'zkpresence:cloud-sync';
+// Fixed so every device holding the wallet derives the same key
+const SYNC_KEY_SALT = 'zkpresence-sync-v1';
+
+interface SyncKeys {
+  encryptionKey: CryptoKey;
+  salt: Uint8Array;
+  idSecret: string;
+}
+
+class CloudSyncManager {
+  private static inFlight: Promise<SyncResult> | null = null;
+
+  // Syncing needs the decrypted wallet for key derivation
+  static isAvailable(): boolean {
+    return getUnlockedWallet() !== null;
+  }
+
+  // Overlapping calls share a single run
+  static sync(): Promise<SyncResult> {
+    if (!this.inFlight) {
+      this.inFlight = this.runSync().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private static async runSync(): Promise<SyncResult> {
+    const wallet = getUnlockedWallet();
+    if (!wallet) {
+      throw new Error('Unlock your wallet to sync your backup');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Sign in to sync your backup');
+    }
+
+    const keys = await this.deriveKeys(wallet.privateKey);
+    const local = await this.collectLocal(keys.idSecret);
+
+    const { data: remoteRows, error } = await supabase
+      .from('encrypted_records')
+      .select('record_key, record_type, payload, deleted, modified_at');
+    if (error) {
+      throw new Error(`Failed to fetch backup: ${error.message}`);
+    }
+
+    const remote = new Map<string, RemoteRecord>(remoteRows.map(row => [row.record_key, row]));
+    const result: SyncResult = { pushed: 0, pulled: 0, deleted: 0 };
+    const uploads: TablesInsert<'encrypted_records'>[] = [];
+
+    for (const key of new Set([...local.keys(), ...remote.keys()])) {
+      const localEntry = local.get(key);
+      const remoteRecord = remote.get(key);
+
+      if (remoteRecord && (!localEntry || remoteRecord.modified_at > localEntry.state.modifiedAt)) {
+        const applied = await this.applyRemote(remoteRecord, localEntry, keys);
+        if (applied === 'deleted') result.deleted++;
+        if (applied === 'pulled') result.pulled++;
+      } else if (localEntry && (!remoteRecord || localEntry.state.modifiedAt > remoteRecord.modified_at)) {
+        uploads.push(await this.toUpload(user.id, localEntry, keys));
+      }
+    }
+
+    if (uploads.length > 0) {
+      const { error: uploadError } = await supabase
+        .from('encrypted_records')
+        .upsert(uploads, { onConflict: 'user_id,record_key' });
+      if (uploadError) {
+        throw new Error(`Failed to upload backup: ${uploadError.message}`);
+      }
+      result.pushed = uploads.length;
+    }
+
+    return result;
+  }
+
+  private static async deriveKeys(privateKey: string): Promise<SyncKeys> {
+    const salt = ethers.toUtf8Bytes(SYNC_KEY_SALT);
+    return {
+      encryptionKey: await deriveKeyFromSecret(ethers.getBytes(privateKey), salt, SYNC_KEY_INFO),
+      salt,
+      idSecret: ethers.keccak256(ethers.concat([privateKey, ethers.toUtf8Bytes('zkpresence:sync-id')]))
+    };
+  }
+
+  // Current local records plus tombstones for anything deleted since the last sync.
+  // Sync state is saved as it is computed, so a failed upload is retried next run.
+  private static async collectLocal(idSecret: string): Promise<Map<string, LocalEntry>> {
+    const states = await CredentialStore.getAll<SyncState>('syncState');
+    const statesByKey = new Map(states.map(state => [state.key, state]));
+    const entries = new Map<string, LocalEntry>();
+    const now = Date.now();
+
+    for (const [type, { store, idField }] of Object.entries(RECORD_STORES) as [SyncRecordType, typeof RECORD_STORES[SyncRecordType]][]) {
+      const records = await CredentialStore.getAll<Record<string, unknown>>(store);
+
+      for (const record of records) {
+        const id = String(record[idField]);
+        const key = this.blindKey(idSecret, type, id);
+        const hash = this.hashRecord(record);
+        let state = statesByKey.get(key);
+
+        // New or edited since the last sync
+        if (!state || state.deleted || state.hash !== hash) {
+          state = { key, type, id, hash, modifiedAt: now, deleted: false };
+          await CredentialStore.put('syncState', state);
+        }
+
+        entries.set(key, { state, record });
+      }
+    }
+
+    for (const state of states) {
+      if (entries.has(state.key)) continue;
+
+      if (!state.deleted) {
+        // Record disappeared locally: turn it into a tombstone
+        const tombstone: SyncState = { ...state, hash: '', modifiedAt: now, deleted: true };
+        await CredentialStore.put('syncState', tombstone);
+        entries.set(state.key, { state: tombstone });
+      } else {
+        entries.set(state.key, { state });
+      }
+    }
+
+    return entries;
+  }
+
+  private static async applyRemote(
+    remoteRecord: RemoteRecord,
+    localEntry: LocalEntry | undefined,
+    keys: SyncKeys
+  ): Promise<'pulled' | 'deleted' | 'skipped'> {
+    const type = remoteRecord.record_type as SyncRecordType;
+    const target = RECORD_STORES[type];
+    if (!target) return 'skipped';
+
+    if (remoteRecord.deleted) {
+      if (localEntry?.record) {
+        await CredentialStore.delete(target.store, localEntry.state.id);
+      }
+      await CredentialStore.put<SyncState>('syncState', {
+        key: remoteRecord.record_key,
+        type,
+        id: localEntry?.state.id ?? '',
+        hash: '',
+        modifiedAt: remoteRecord.modified_at,
+        deleted: true
+      });
+      return localEntry?.record ? 'deleted' : 'skipped';
+    }
+
+    if (!isEncryptedEnvelope(remoteRecord.payload)) {
+      console.warn('Skipping malformed backup record', remoteRecord.record_key);
+      return 'skipped';
+    }
+
+    const record = await decryptWithKey<Record<string, unknown>>(
+      keys.encryptionKey,
+      remoteRecord.payload,
+      `${SYNC_CONTEXT}:${type}`
+    );
+
+    await CredentialStore.put(target.store, record);
+    await CredentialStore.put<SyncState>('syncState', {
+      key: remoteRecord.record_key,
+      type,
+      id: String(record[target.idField]),
+      hash: this.hashRecord(record),
+      modifiedAt: remoteRecord.modified_at,
+      deleted: false
+    });
+    return 'pulled';
+  }
+
+  private static async toUpload(
+    userId: string,
+    entry: LocalEntry,
+    keys: SyncKeys
+  ): Promise<TablesInsert<'encrypted_records'>> {
+    const { state, record } = entry;
+    const payload = state.deleted || !record
+      ? null
+      : await encryptWithKey(keys.encryptionKey, keys.salt, record, `${SYNC_CONTEXT}:${state.type}`, 0, 'HKDF-SHA256');
+
+    return {
+      user_id: userId,
+      record_key: state.key,
+      record_type: state.type,
+      payload: payload as unknown as Json,
+      deleted: state.deleted,
+      modified_at: state.modifiedAt
+    };
+  }
+
+  // Keyed hash so record ids and timestamps embedded in them stay private
+  private static blindKey(idSecret: string, type: SyncRecordType, id: string): string {
+    return ethers.keccak256(ethers.concat([idSecret, ethers.toUtf8Bytes(`${type}:${id}`)]));
+  }
+
+  private static hashRecord(record: Record<string, unknown>): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(record)));
+  }
+}
+
+export { CloudSyncManager };
@@ -0,0 +1,407 @@
+// Two-party co-presence handshake over QR codes
+// 1. The initiator (A) shows an offer: identity commitment, session nullifier and a
+//    fresh ephemeral public key, under the current window's ephemeral nonce, signed
+//    by A's identity key (see ProximityQR).
+// 2. The responder (B) scans it, signs the EIP-712 transcript with its own ephemeral
+//    key and with its identity key, and shows the reply.
+// 3. A checks B's signatures, countersigns and shows a confirmation for B to scan.
+// Both devices end up with the same transcript, A's signed offer and all signatures,
+// so anyone can check that the two ephemeral keys signed the same meeting and that
+// each was vouched for by an identity key that signed its owner's commitment.
+
+import { ethers } from 'ethers';
+import deploymentInfo from '@/contracts/deployment.json';
+import { ZKIdentityManager, type ZKCoPresenceProof } from './zkIdentity';
+import { ProximityQR, type SignedProximityOffer } from './proximityQR';
+
+export interface CoPresenceTranscript {
+  ephemeralNonce: string;
+  // Unix seconds, chosen by the responder
+  timestamp: number;
+  commitmentA: string;
+  commitmentB: string;
+  // Session-scoped nullifiers, H(identity nullifier, nonce)
+  nullifierA: string;
+  nullifierB: string;
+  ephemeralKeyA: string;
+  ephemeralKeyB: string;
+  identityKeyA: string;
+  identityKeyB: string;
+}
+
+const RESPONSE_QR_TYPE = 'zk-copresence-response';
+const CONFIRMATION_QR_TYPE = 'zk-copresence-confirm';
+const HANDSHAKE_VERSION = 2;
+
+// How long each step of the handshake may take
+const HANDSHAKE_TTL_SECONDS = 120;
+
+const CO_PRESENCE_DOMAIN: ethers.TypedDataDomain = {
+  name: 'ZKPresence Co-Presence',
+  version: String(HANDSHAKE_VERSION),
+  chainId: deploymentInfo.chainId,
+  // Lowercased so ethers skips checksum validation of the configured address
+  verifyingContract: deploymentInfo.contractAddress.toLowerCase()
+};
+
+const CO_PRESENCE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  CoPresence: [
+    { name: 'ephemeralNonce', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint64' },
+    { name: 'commitmentA', type: 'bytes32' },
+    { name: 'commitmentB', type: 'bytes32' },
+    { name: 'nullifierA', type: 'bytes32' },
+    { name: 'nullifierB', type: 'bytes32' },
+    { name: 'ephemeralKeyA', type: 'address' },
+    { name: 'ephemeralKeyB', type: 'address' },
+    { name: 'identityKeyA', type: 'address' },
+    { name: 'identityKeyB', type: 'address' }
+  ]
+};
+
+interface ResponsePayload {
+  type: typeof RESPONSE_QR_TYPE;
+  version: number;
+  ephemeralId: string;
+  userId: string;
+  username: string;
+  nullifier: string;
+  ephemeralKey: string;
+  identityKey: string;
+  timestamp: number;
+  // By the ephemeral key and by the identity key, both over the transcript
+  signature: string;
+  identitySignature: string;
+}
+
+interface ConfirmationPayload {
+  type: typeof CONFIRMATION_QR_TYPE;
+  version: number;
+  ephemeralId: string;
+  signature: string;
+}
+
+// Initiator state while waiting for the responder's reply
+export interface CoPresenceOffer {
+  payload: SignedProximityOffer;
+  ephemeralWallet: ethers.Wallet;
+}
+
+// Responder state while waiting for the initiator's confirmation
+export interface PendingCoPresence {
+  transcript: CoPresenceTranscript;
+  offerA: SignedProximityOffer;
+  signatureB: string;
+  identitySignatureB: string;
+  usernameA: string;
+  usernameB: string;
+  expiresAt: number;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+class CoPresenceManager {
+  // Step 1 (initiator): an offer for the current time window with a new ephemeral key
+  static async createOffer(username: string): Promise<CoPresenceOffer> {
+    const identity = await ZKIdentityManager.getOrCreateIdentity();
+    const window = ProximityQR.currentWindow();
+    const ephemeralId = ProximityQR.deriveEphemeralId(identity, window);
+    const ephemeralWallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+
+    return {
+      ephemeralWallet,
+      payload: await ProximityQR.sign(identity, window, {
+        userId: identity.identityCommitment,
+        username,
+        ephemeralId,
+        nullifier: ZKIdentityManager.computeEventNullifier(identity, this.sessionScope(ephemeralId)),
+        ephemeralKey: ephemeralWallet.address
+      })
+    };
+  }
+
+  static encodeOffer(offer: CoPresenceOffer): string {
+    return ProximityQR.encode(offer.payload);
+  }
+
+  static isOfferPayload(data: unknown): boolean {
+    return ProximityQR.isProximityCode(data);
+  }
+
+  static isResponsePayload(data: unknown): boolean {
+    return this.hasType(data, RESPONSE_QR_TYPE);
+  }
+
+  static isConfirmationPayload(data: unknown): boolean {
+    return this.hasType(data, CONFIRMATION_QR_TYPE);
+  }
+
+  // Step 2 (responder): sign the transcript for a scanned offer; throws with a user-facing reason
+  static async respond(data: unknown, username: string): Promise<{ pending: PendingCoPresence; reply: string }> {
+    const offer = ProximityQR.verifyScanned(data);
+    const identity = await ZKIdentityManager.getOrCreateIdentity();
+    if (offer.userId.toLowerCase() === identity.identityCommitment.toLowerCase()) {
+      throw new Error('You cannot scan your own QR code');
+    }
+
+    const identityKey = new ethers.Wallet(identity.privateKey);
+    const ephemeralWallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+    const transcript: CoPresenceTranscript = {
+      ephemeralNonce: offer.ephemeralId,
+      timestamp: nowSeconds(),
+      commitmentA: offer.userId,
+      commitmentB: identity.identityCommitment,
+      nullifierA: offer.nullifier,
+      nullifierB: ZKIdentityManager.computeEventNullifier(identity, this.sessionScope(offer.ephemeralId)),
+      ephemeralKeyA: offer.ephemeralKey,
+      ephemeralKeyB: ephemeralWallet.address,
+      identityKeyA: offer.identityKey,
+      identityKeyB: identityKey.address
+    };
+    const signatureB = await ephemeralWallet.signTypedData(CO_PRESENCE_DOMAIN, CO_PRESENCE_TYPES, transcript);
+    const identitySignatureB = await identityKey.signTypedData(CO_PRESENCE_DOMAIN, CO_PRESENCE_TYPES, transcript);
+
+    const reply: ResponsePayload = {
+      type: RESPONSE_QR_TYPE,
+      version: HANDSHAKE_VERSION,
+      ephemeralId: transcript.ephemeralNonce,
+      userId: transcript.commitmentB,
+      username,
+      nullifier: transcript.nullifierB,
+      ephemeralKey: transcript.ephemeralKeyB,
+      identityKey: transcript.identityKeyB,
+      timestamp: transcript.timestamp,
+      signature: signatureB,
+      identitySignature: identitySignatureB
+    };
+
+    return {
+      pending: {
+        transcript,
+        offerA: offer,
+        signatureB,
+        identitySignatureB,
+        usernameA: offer.username,
+        usernameB: username,
+        expiresAt: transcript.timestamp + HANDSHAKE_TTL_SECONDS
+      },
+      reply: JSON.stringify(reply)
+    };
+  }
+
+  // Step 3 (initiator): check the responder's signature and countersign
+  // Takes every offer recently shown, since the code may have rotated while the responder replied
+  static async confirm(
+    offers: CoPresenceOffer[],
+    data: unknown,
+    location?: string
+  ): Promise<{ proof: ZKCoPresenceProof; reply: string }> {
+    const response = this.parseResponse(data);
+    const offer = offers.find(candidate => candidate.payload.ephemeralId === response.ephemeralId);
+    if (!offer) {
+      throw new Error('This reply is for a different QR code');
+    }
+    if (
+      response.timestamp < offer.payload.issuedAt ||
+      nowSeconds() > response.timestamp + HANDSHAKE_TTL_SECONDS
+    ) {
+      throw new Error('The handshake took too long, start again');
+    }
+
+    const transcript: CoPresenceTranscript = {
+      ephemeralNonce: offer.payload.ephemeralId,
+      timestamp: response.timestamp,
+      commitmentA: offer.payload.userId,
+      commitmentB: response.userId,
+      nullifierA: offer.payload.nullifier,
+      nullifierB: response.nullifier,
+      ephemeralKeyA: offer.ephemeralWallet.address,
+      ephemeralKeyB: response.ephemeralKey,
+      identityKeyA: offer.payload.identityKey,
+      identityKeyB: response.identityKey
+    };
+    if (
+      !this.isSignedBy(transcript, response.signature, transcript.ephemeralKeyB) ||
+      !this.isSignedBy(transcript, response.identitySignature, transcript.identityKeyB)
+    ) {
+      throw new Error('The reply has an invalid signature');
+    }
+
+    const signatureA = await offer.ephemeralWallet.signTypedData(CO_PRESENCE_DOMAIN, CO_PRESENCE_TYPES, transcript);
+    const confirmation: ConfirmationPayload = {
+      type: CONFIRMATION_QR_TYPE,
+      version: HANDSHAKE_VERSION,
+      ephemeralId: transcript.ephemeralNonce,
+      signature: signatureA
+    };
+
+    return {
+      proof: this.toProof(
+        transcript,
+        offer.payload,
+        response.username,
+        { signatureA, signatureB: response.signature, identitySignatureB: response.identitySignature },
+        'initiator',
+        location
+      ),
+      reply: JSON.stringify(confirmation)
+    };
+  }
+
+  // Step 4 (responder): check the initiator's countersignature
+  static complete(pending: PendingCoPresence, data: unknown, location?: string): ZKCoPresenceProof {
+    const confirmation = this.parseConfirmation(data);
+    if (confirmation.ephemeralId !== pending.transcript.ephemeralNonce) {
+      throw new Error('This confirmation is for a different handshake');
+    }
+    if (nowSeconds() > pending.expiresAt) {
+      throw new Error('The handshake took too long, start again');
+    }
+    if (!this.isSignedBy(pending.transcript, confirmation.signature, pending.transcript.ephemeralKeyA)) {
+      throw new Error('The confirmation has an invalid signature');
+    }
+
+    return this.toProof(
+      pending.transcript,
+      pending.offerA,
+      pending.usernameB,
+      {
+        signatureA: confirmation.signature,
+        signatureB: pending.signatureB,
+        identitySignatureB: pending.identitySignatureB
+      },
+      'responder',
+      location
+    );
+  }
+
+  // Third-party check: A's identity key signed the offer naming A's commitment, nullifier and
+  // ephemeral key; B's identity key signed the transcript naming B's; both ephemeral keys
+  // signed the transcript, and the binding matches it
+  static verifyProof(proof: ZKCoPresenceProof): boolean {
+    const { transcript, offerA } = proof;
+    if (!transcript || !offerA || !proof.signatureA || !proof.signatureB || !proof.identitySignatureB) return false;
+
+    try {
+      return (
+        proof.binding === this.computeBinding(transcript) &&
+        !this.isSameHex(transcript.commitmentA, transcript.commitmentB) &&
+        !this.isSameHex(transcript.ephemeralKeyA, transcript.ephemeralKeyB) &&
+        !this.isSameHex(transcript.identityKeyA, transcript.identityKeyB) &&
+        this.isOfferFor(offerA, transcript) &&
+        ProximityQR.isSignedOffer(offerA) &&
+        this.isSignedBy(transcript, proof.identitySignatureB, transcript.identityKeyB) &&
+        this.isSignedBy(transcript, proof.signatureA, transcript.ephemeralKeyA) &&
+        this.isSignedBy(transcript, proof.signatureB, transcript.ephemeralKeyB)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  // EIP-712 digest of the transcript that both parties signed
+  static computeBinding(transcript: CoPresenceTranscript): string {
+    return ethers.TypedDataEncoder.hash(CO_PRESENCE_DOMAIN, CO_PRESENCE_TYPES, transcript);
+  }
+
+  private static toProof(
+    transcript: CoPresenceTranscript,
+    offerA: SignedProximityOffer,
+    usernameB: string,
+    signatures: Pick<ZKCoPresenceProof, 'signatureA' | 'signatureB' | 'identitySignatureB'>,
+    role: ZKCoPresenceProof['role'],
+    location?: string
+  ): ZKCoPresenceProof {
+    const binding = this.computeBinding(transcript);
+    return {
+      // Same id on both devices
+      eventId: `copresence-${binding.slice(2, 18)}`,
+      userIdA: transcript.commitmentA,
+      userIdB: transcript.commitmentB,
+      usernameA: offerA.username,
+      usernameB,
+      ephemeralNonce: transcript.ephemeralNonce,
+      timestamp: transcript.timestamp * 1000,
+      location,
+      role,
+      credentialA: { commitment: transcript.commitmentA, nullifier: transcript.nullifierA },
+      credentialB: { commitment: transcript.commitmentB, nullifier: transcript.nullifierB },
+      transcript,
+      offerA,
+      ...signatures,
+      binding
+    };
+  }
+
+  private static isSignedBy(transcript: CoPresenceTranscript, signature: string, signer: string): boolean {
+    try {
+      const recovered = ethers.verifyTypedData(CO_PRESENCE_DOMAIN, CO_PRESENCE_TYPES, transcript, signature);
+      return recovered.toLowerCase() === signer.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  // A's signed offer is the one the transcript was built from
+  private static isOfferFor(offer: SignedProximityOffer, transcript: CoPresenceTranscript): boolean {
+    return (
+      this.isSameHex(offer.userId, transcript.commitmentA) &&
+      this.isSameHex(offer.nullifier, transcript.nullifierA) &&
+      this.isSameHex(offer.ephemeralId, transcript.ephemeralNonce) &&
+      this.isSameHex(offer.ephemeralKey, transcript.ephemeralKeyA) &&
+      this.isSameHex(offer.identityKey, transcript.identityKeyA)
+    );
+  }
+
+  private static isSameHex(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+
+  // Session nullifiers reuse the event nullifier with the nonce as the scope
+  private static sessionScope(ephemeralId: string): string {
+    return `copresence:${ephemeralId}`;
+  }
+
+  private static hasType(data: unknown, type: string): boolean {
+    return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === type;
+  }
+
+  private static isBytes32(value: unknown): value is string {
+    return typeof value === 'string' && ethers.isHexString(value, 32);
+  }
+
+  private static parseResponse(data: unknown): ResponsePayload {
+    const payload = data as Partial<ResponsePayload>;
+    if (
+      !this.isResponsePayload(data) ||
+      payload.version !== HANDSHAKE_VERSION ||
+      !this.isBytes32(payload.userId) ||
+      !this.isBytes32(payload.ephemeralId) ||
+      !this.isBytes32(payload.nullifier) ||
+      typeof payload.ephemeralKey !== 'string' || !ethers.isAddress(payload.ephemeralKey) ||
+      typeof payload.identityKey !== 'string' || !ethers.isAddress(payload.identityKey) ||
+      typeof payload.username !== 'string' ||
+      typeof payload.timestamp !== 'number' ||
+      typeof payload.signature !== 'string' ||
+      typeof payload.identitySignature !== 'string'
+    ) {
+      throw new Error('Unsupported co-presence reply');
+    }
+    return payload as ResponsePayload;
+  }
+
+  private static parseConfirmation(data: unknown): ConfirmationPayload {
+    const payload = data as Partial<ConfirmationPayload>;
+    if (
+      !this.isConfirmationPayload(data) ||
+      payload.version !== HANDSHAKE_VERSION ||
+      !this.isBytes32(payload.ephemeralId) ||
+      typeof payload.signature !== 'string'
+    ) {
+      throw new Error('Unsupported co-presence confirmation');
+    }
+    return payload as ConfirmationPayload;
+  }
+}
+
+export { CoPresenceManager };
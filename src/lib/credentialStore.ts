@@ -0,0 +1,353 @@
+// IndexedDB-backed repository for identity, credentials, proofs and sessions
+// Every write runs in its own transaction, so concurrent tabs never clobber
+// each other the way whole-array localStorage rewrites did. Writes are
+// announced to listeners in this tab and, via BroadcastChannel (or storage
+// events where unsupported), to every other open tab.
+
+export type StoreName =
+  | 'identity'
+  | 'credentials'
+  | 'copresenceProofs'
+  | 'groupSessions'
+  | 'groupProofs'
+  | 'secureWallet'
+  | 'syncState';
+
+export type StoreIndex = 'eventId' | 'timestamp' | 'status';
+
+export interface StoreChange {
+  store: StoreName;
+  // 'remote' when the write happened in another tab
+  origin: 'local' | 'remote';
+}
+
+export type StoreChangeListener = (change: StoreChange) => void;
+
+interface StoreSchema {
+  keyPath?: string;
+  // Index name -> record property
+  indexes: Partial<Record<StoreIndex, string>>;
+}
+
+const DB_NAME = 'zkpresence';
+const DB_VERSION = 2;
+
+const STORES: Record<StoreName, StoreSchema> = {
+  // Single record under IDENTITY_KEY
+  identity: { indexes: {} },
+  credentials: {
+    keyPath: 'id',
+    indexes: { eventId: 'eventId', timestamp: 'timestamp', status: 'blockchainStatus' }
+  },
+  copresenceProofs: {
+    keyPath: 'eventId',
+    indexes: { eventId: 'eventId', timestamp: 'timestamp', status: 'blockchainStatus' }
+  },
+  groupSessions: {
+    keyPath: 'sessionId',
+    indexes: { eventId: 'eventId', timestamp: 'createdAt', status: 'status' }
+  },
+  groupProofs: {
+    keyPath: 'id',
+    indexes: { eventId: 'eventId', timestamp: 'timestamp', status: 'blockchainStatus' }
+  },
+  // Encrypted envelope only, keyed by wallet name
+  secureWallet: { indexes: {} },
+  // Cloud backup bookkeeping, one entry per synced record (added in v2)
+  syncState: { keyPath: 'key', indexes: {} }
+};
+
+// localStorage keys imported once when the database is first created
+const LEGACY_KEYS: Record<string, StoreName> = {
+  'zk-identity': 'identity',
+  'zk-credentials': 'credentials',
+  'zk-copresence-proofs': 'copresenceProofs',
+  'group-sessions': 'groupSessions',
+  'group-proofs': 'groupProofs',
+  'zk-secure-wallet': 'secureWallet'
+};
+
+const CHANGE_CHANNEL = 'zkpresence-store';
+// Fallback for browsers without BroadcastChannel
+const CHANGE_STORAGE_KEY = 'zkpresence-store-change';
+
+export const IDENTITY_KEY = 'current';
+
+export class CredentialStore {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static listeners = new Set<StoreChangeListener>();
+  private static channel: BroadcastChannel | null = null;
+  private static crossTabConnected = false;
+
+  // Listen for writes from this tab and others; returns an unsubscribe function
+  static subscribe(listener: StoreChangeListener): () => void {
+    this.connectCrossTab();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static async get<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return this.transact(storeName, 'readonly', async store =>
+      this.request<T | undefined>(store.get(key))
+    );
+  }
+
+  // All records, ordered by an index when one is given
+  static async getAll<T>(
+    storeName: StoreName,
+    index?: StoreIndex,
+    query?: IDBValidKey | IDBKeyRange
+  ): Promise<T[]> {
+    return this.transact(storeName, 'readonly', async store => {
+      const source = index ? store.index(index) : store;
+      return this.request<T[]>(source.getAll(query));
+    });
+  }
+
+  static async put<T>(storeName: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+    await this.transact(storeName, 'readwrite', async store => {
+      await this.request(store.put(value, key));
+    });
+    this.notify(storeName);
+  }
+
+  // Insert unless an existing record matches; the check and write share one transaction
+  static async putIfAbsent<T>(
+    storeName: StoreName,
+    value: T,
+    isDuplicate: (existing: T) => boolean
+  ): Promise<boolean> {
+    const stored = await this.transact(storeName, 'readwrite', async store => {
+      const existing = await this.request<T[]>(store.getAll());
+      if (existing.some(isDuplicate)) return false;
+
+      await this.request(store.put(value));
+      return true;
+    });
+    if (stored) this.notify(storeName);
+    return stored;
+  }
+
+  // Atomic read-modify-write of a single record. Errors thrown by the updater abort the write.
+  static async update<T>(
+    storeName: StoreName,
+    key: IDBValidKey,
+    updater: (current: T | undefined) => T
+  ): Promise<T> {
+    const updated = await this.transact(storeName, 'readwrite', async store => {
+      const current = await this.request<T | undefined>(store.get(key));
+      const next = updater(current);
+      await this.request(store.keyPath === null ? store.put(next, key) : store.put(next));
+      return next;
+    });
+    this.notify(storeName);
+    return updated;
+  }
+
+  // Rewrite or delete (by returning null) every record in a store
+  static async updateAll<T>(storeName: StoreName, updater: (record: T) => T | null): Promise<void> {
+    await this.transact(storeName, 'readwrite', async store => {
+      const cursorRequest = store.openCursor();
+      let cursor = await this.request(cursorRequest);
+      while (cursor) {
+        const next = updater(cursor.value as T);
+        await this.request(next === null ? cursor.delete() : cursor.update(next));
+        cursor.continue();
+        cursor = await this.request(cursorRequest);
+      }
+    });
+    this.notify(storeName);
+  }
+
+  // Swap the whole contents of a store in one transaction
+  static async replaceAll<T>(storeName: StoreName, values: T[]): Promise<void> {
+    await this.transact(storeName, 'readwrite', async store => {
+      await this.request(store.clear());
+      for (const value of values) {
+        await this.request(store.put(value));
+      }
+    });
+    this.notify(storeName);
+  }
+
+  static async delete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+    await this.transact(storeName, 'readwrite', async store => {
+      await this.request(store.delete(key));
+    });
+    this.notify(storeName);
+  }
+
+  static async clear(storeName: StoreName): Promise<void> {
+    await this.transact(storeName, 'readwrite', async store => {
+      await this.request(store.clear());
+    });
+    this.notify(storeName);
+  }
+
+  private static notify(storeName: StoreName): void {
+    this.connectCrossTab();
+    this.emit({ store: storeName, origin: 'local' });
+
+    if (this.channel) {
+      this.channel.postMessage(storeName);
+    } else if (typeof localStorage !== 'undefined') {
+      // A fresh value each time so repeated writes still fire the event
+      localStorage.setItem(CHANGE_STORAGE_KEY, JSON.stringify({ store: storeName, at: Date.now(), nonce: Math.random() }));
+    }
+  }
+
+  private static emit(change: StoreChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Store change listener failed:', error);
+      }
+    });
+  }
+
+  private static connectCrossTab(): void {
+    if (this.crossTabConnected || typeof window === 'undefined') return;
+    this.crossTabConnected = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANGE_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent<StoreName>) => {
+        this.emit({ store: event.data, origin: 'remote' });
+      };
+      return;
+    }
+
+    window.addEventListener('storage', (event) => {
+      if (event.key !== CHANGE_STORAGE_KEY || !event.newValue) return;
+      try {
+        const { store } = JSON.parse(event.newValue);
+        this.emit({ store, origin: 'remote' });
+      } catch {
+        // Ignore malformed notifications
+      }
+    });
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        let migratedKeys: string[] = [];
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const tx = request.transaction!;
+
+          for (const [name, schema] of Object.entries(STORES)) {
+            if (db.objectStoreNames.contains(name)) continue;
+
+            const store = db.createObjectStore(name, schema.keyPath ? { keyPath: schema.keyPath } : undefined);
+            for (const [index, property] of Object.entries(schema.indexes)) {
+              store.createIndex(index, property);
+            }
+          }
+
+          if (event.oldVersion === 0) {
+            migratedKeys = this.migrateFromLocalStorage(tx);
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer tab upgrade the schema instead of blocking it
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+
+          // The upgrade transaction has committed, so the old copies can go
+          migratedKeys.forEach(key => localStorage.removeItem(key));
+          if (migratedKeys.length > 0) {
+            console.log(`Migrated ${migratedKeys.length} localStorage entries to IndexedDB`);
+          }
+          resolve(db);
+        };
+
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+
+        request.onblocked = () => {
+          console.warn('IndexedDB upgrade blocked by another open tab');
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Copy legacy JSON blobs into the new stores inside the upgrade transaction
+  private static migrateFromLocalStorage(tx: IDBTransaction): string[] {
+    const migrated: string[] = [];
+
+    for (const [key, storeName] of Object.entries(LEGACY_KEYS)) {
+      const stored = localStorage.getItem(key);
+      if (!stored) continue;
+
+      try {
+        const parsed = JSON.parse(stored);
+        const store = tx.objectStore(storeName);
+
+        if (STORES[storeName].keyPath) {
+          if (!Array.isArray(parsed)) continue;
+          parsed.forEach(record => store.put(record));
+        } else {
+          store.put(parsed, storeName === 'identity' ? IDENTITY_KEY : key);
+        }
+        migrated.push(key);
+      } catch (error) {
+        console.warn(`Skipping unreadable localStorage entry "${key}":`, error);
+      }
+    }
+
+    return migrated;
+  }
+
+  private static async transact<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T> {
+    const db = await this.open();
+    const tx = db.transaction(storeName, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+
+    try {
+      const result = await operation(tx.objectStore(storeName));
+      await completed;
+      return result;
+    } catch (error) {
+      completed.catch(() => undefined);
+      try {
+        tx.abort();
+      } catch {
+        // Transaction already finished
+      }
+      throw error;
+    }
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
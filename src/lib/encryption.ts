@@ -0,0 +1,166 @@
+// Passphrase-based encryption for data at rest
+// PBKDF2-SHA256 derives an AES-GCM key; results are stored in a versioned envelope.
+// High-entropy secrets such as wallet keys use HKDF-SHA256 instead.
+
+export interface EncryptedEnvelope {
+  version: 1;
+  kdf: 'PBKDF2-SHA256' | 'HKDF-SHA256';
+  iterations: number; // 0 for HKDF
+  cipher: 'AES-GCM';
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+export const ENVELOPE_VERSION = 1;
+export const PBKDF2_ITERATIONS = 310_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const generateSalt = (): Uint8Array => {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+};
+
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Derive an AES-GCM key from key material that is already uniformly random
+export const deriveKeyFromSecret = async (
+  secret: Uint8Array,
+  salt: Uint8Array,
+  info: string
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Encrypt with an already derived key. The context string is bound as AES-GCM
+// additional data so an envelope cannot be replayed into a different store.
+export const encryptWithKey = async (
+  key: CryptoKey,
+  salt: Uint8Array,
+  data: unknown,
+  context: string,
+  iterations: number = PBKDF2_ITERATIONS,
+  kdf: EncryptedEnvelope['kdf'] = 'PBKDF2-SHA256'
+): Promise<EncryptedEnvelope> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    plaintext
+  );
+
+  return {
+    version: ENVELOPE_VERSION,
+    kdf,
+    iterations,
+    cipher: 'AES-GCM',
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+export const decryptWithKey = async <T>(
+  key: CryptoKey,
+  envelope: EncryptedEnvelope,
+  context: string
+): Promise<T> => {
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${envelope.version}`);
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(envelope.iv),
+        additionalData: new TextEncoder().encode(context)
+      },
+      key,
+      fromBase64(envelope.ciphertext)
+    );
+  } catch {
+    // AES-GCM authentication failure: wrong passphrase or tampered data
+    throw new Error('Incorrect passphrase or corrupted data');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+export const encryptJSON = async (
+  data: unknown,
+  passphrase: string,
+  context: string
+): Promise<EncryptedEnvelope> => {
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt);
+  return encryptWithKey(key, salt, data, context);
+};
+
+export const decryptJSON = async <T>(
+  envelope: EncryptedEnvelope,
+  passphrase: string,
+  context: string
+): Promise<T> => {
+  const key = await deriveKey(passphrase, getEnvelopeSalt(envelope), envelope.iterations);
+  return decryptWithKey<T>(key, envelope, context);
+};
+
+export const getEnvelopeSalt = (envelope: EncryptedEnvelope): Uint8Array => {
+  return fromBase64(envelope.salt);
+};
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedEnvelope => {
+  const candidate = value as EncryptedEnvelope;
+  return !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.version === 'number' &&
+    typeof candidate.salt === 'string' &&
+    typeof candidate.iv === 'string' &&
+    typeof candidate.ciphertext === 'string';
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
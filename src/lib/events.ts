@@ -0,0 +1,215 @@
+// Event catalog backed by the Supabase events table
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Derived from the event window rather than stored
+export type EventStatus = 'upcoming' | 'open' | 'ended';
+
+export type EventSort = 'date-asc' | 'date-desc';
+
+export interface CatalogEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string;
+  category: string;
+  startsAt: Date;
+  endsAt: Date;
+  organizer: string;
+  organizerId: string | null;
+  // Wallet that signs check-in QR codes
+  organizerAddress: string | null;
+  requiresProof: boolean;
+  image: string | null;
+  attendeeCount: number;
+  status: EventStatus;
+}
+
+export interface EventQuery {
+  search?: string;
+  category?: string;
+  status?: EventStatus;
+  sort?: EventSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface EventPage {
+  events: CatalogEvent[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+export interface NewEventInput {
+  name: string;
+  description: string;
+  location: string;
+  category: string;
+  startsAt: Date;
+  endsAt: Date;
+  organizer: string;
+  organizerAddress: string | null;
+  requiresProof: boolean;
+  image: string | null;
+}
+
+export const DEFAULT_EVENT_PAGE_SIZE = 10;
+
+type EventRow = Tables<'events'>;
+
+export class EventCatalog {
+  static async listEvents(query: EventQuery = {}): Promise<EventPage> {
+    const page = Math.max(query.page ?? 0, 0);
+    const pageSize = query.pageSize ?? DEFAULT_EVENT_PAGE_SIZE;
+    const now = new Date().toISOString();
+
+    let request = supabase
+      .from('events')
+      .select('*', { count: 'exact' })
+      .order('starts_at', { ascending: query.sort !== 'date-desc' })
+      .range(page * pageSize, page * pageSize + pageSize - 1);
+
+    const search = this.sanitizeSearch(query.search);
+    if (search) {
+      request = request.or(
+        `name.ilike.%${search}%,description.ilike.%${search}%,location.ilike.%${search}%`
+      );
+    }
+
+    if (query.category) {
+      request = request.eq('category', query.category);
+    }
+
+    if (query.status === 'upcoming') {
+      request = request.gt('starts_at', now);
+    } else if (query.status === 'open') {
+      request = request.lte('starts_at', now).gte('ends_at', now);
+    } else if (query.status === 'ended') {
+      request = request.lt('ends_at', now);
+    }
+
+    const { data, count, error } = await request;
+    if (error) {
+      throw new Error(`Failed to load events: ${error.message}`);
+    }
+
+    const total = count ?? data.length;
+    return {
+      events: data.map(row => this.toCatalogEvent(row)),
+      total,
+      page,
+      pageCount: Math.max(Math.ceil(total / pageSize), 1)
+    };
+  }
+
+  static async getEvent(eventId: string): Promise<CatalogEvent | null> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load event: ${error.message}`);
+    }
+    return data ? this.toCatalogEvent(data) : null;
+  }
+
+  // Inserted under the signed-in user, who RLS then treats as the organizer
+  static async createEvent(organizerId: string, input: NewEventInput): Promise<CatalogEvent> {
+    if (input.endsAt < input.startsAt) {
+      throw new Error('Event cannot end before it starts');
+    }
+
+    const { data, error } = await supabase
+      .from('events')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        location: input.location,
+        category: input.category,
+        starts_at: input.startsAt.toISOString(),
+        ends_at: input.endsAt.toISOString(),
+        organizer: input.organizer,
+        organizer_id: organizerId,
+        organizer_address: input.organizerAddress,
+        requires_proof: input.requiresProof,
+        image: input.image
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create event: ${error.message}`);
+    }
+    return this.toCatalogEvent(data);
+  }
+
+  static async listOrganizerEvents(organizerId: string): Promise<CatalogEvent[]> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .order('starts_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load your events: ${error.message}`);
+    }
+    return data.map(row => this.toCatalogEvent(row));
+  }
+
+  static async setOrganizerAddress(eventId: string, organizerAddress: string): Promise<void> {
+    const { error } = await supabase
+      .from('events')
+      .update({ organizer_address: organizerAddress })
+      .eq('id', eventId);
+
+    if (error) {
+      throw new Error(`Failed to update event: ${error.message}`);
+    }
+  }
+
+  static async getCategories(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('category');
+
+    if (error) {
+      throw new Error(`Failed to load categories: ${error.message}`);
+    }
+    return Array.from(new Set(data.map(row => row.category))).sort();
+  }
+
+  static getStatus(startsAt: Date, endsAt: Date, now = new Date()): EventStatus {
+    if (now < startsAt) return 'upcoming';
+    if (now > endsAt) return 'ended';
+    return 'open';
+  }
+
+  private static toCatalogEvent(row: EventRow): CatalogEvent {
+    const startsAt = new Date(row.starts_at);
+    const endsAt = new Date(row.ends_at);
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      location: row.location,
+      category: row.category,
+      startsAt,
+      endsAt,
+      organizer: row.organizer,
+      organizerId: row.organizer_id,
+      organizerAddress: row.organizer_address,
+      requiresProof: row.requires_proof,
+      image: row.image,
+      attendeeCount: row.attendee_count,
+      status: this.getStatus(startsAt, endsAt)
+    };
+  }
+
+  // PostgREST filter strings treat commas, parentheses and wildcards as syntax
+  private static sanitizeSearch(search?: string): string {
+    return (search ?? '').replace(/[,()%*\\]/g, ' ').trim();
+  }
+}
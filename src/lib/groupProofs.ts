@@ -1,5 +1,17 @@
 // Group Proof Management for Multi-User Sessions
 
+import { MerkleTree, type MerkleHashAlgorithm, type MerkleInclusionPath } from './merkleTree';
+import { CredentialStore } from './credentialStore';
+import { ZKIdentityManager, type ZKIdentity } from './zkIdentity';
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+type GroupSessionRow = Tables<'group_sessions'>;
+type GroupParticipantRow = Tables<'group_participants'>;
+type GroupJoinRequestRow = Tables<'group_join_requests'>;
+type GroupAuditRow = Tables<'group_session_audit'>;
+
 export interface GroupParticipant {
   userId: string;
   username: string;
@@ -9,6 +21,46 @@ export interface GroupParticipant {
   isHost: boolean;
 }
 
+// A pending or decided request to join, filed by join_group_session
+export interface GroupJoinRequest {
+  id: string;
+  userId: string;
+  username: string;
+  commitment: string;
+  // 'left' once an approved member leaves on their own
+  status: 'pending' | 'approved' | 'rejected' | 'left';
+  requestedAt: number;
+  decidedAt?: number;
+}
+
+export type GroupAuditAction =
+  | 'session_created'
+  | 'join_requested'
+  | 'join_cancelled'
+  | 'join_approved'
+  | 'join_rejected'
+  | 'participant_joined'
+  | 'participant_left'
+  | 'participant_removed'
+  | 'session_locked'
+  | 'session_unlocked'
+  | 'invitations_revoked'
+  | 'status_changed';
+
+// One membership or moderation change, written by database triggers
+export interface GroupAuditEntry {
+  id: number;
+  action: GroupAuditAction;
+  actorUserId?: string;
+  subjectUserId?: string;
+  subjectUsername?: string;
+  // New status for 'status_changed'
+  detail?: string;
+  timestamp: number;
+}
+
+export type GroupMembership = 'member' | 'pending' | 'rejected' | 'removed';
+
 export interface GroupSession {
   sessionId: string;
   eventId: string;
@@ -21,7 +73,36 @@ export interface GroupSession {
   createdAt: number;
   expiresAt: number;
   location?: string;
-  sessionKey: string;
+  // A locked session accepts no new join requests or approvals
+  locked: boolean;
+  // The host sees every request; anyone else only their own
+  joinRequests: GroupJoinRequest[];
+  // Oldest first; only members and the host can read it
+  auditTrail: GroupAuditEntry[];
+}
+
+// Permission to join one session, carried in the session QR code. It is a bearer
+// token: an HMAC under the session's invite key, which only the host and the server
+// can read, not a signature by the host's identity. Rotating the key revokes it.
+export interface GroupInvitation {
+  sessionId: string;
+  eventId: string;
+  // Unix milliseconds
+  expiresAt: number;
+  // Admits joiners only while the session has fewer participants; 0 for no extra cap
+  maxParticipants: number;
+  // Invite token: HMAC-SHA256 under the session's invite key, recomputed by join_group_session
+  signature: string;
+}
+
+// What the host's QR code shows; only the invitation fields are covered by the token
+export interface GroupInvitationQRData extends GroupInvitation {
+  type: 'group_session';
+  version: number;
+  eventName: string;
+  hostUsername: string;
+  participantCount: number;
+  sessionMaxParticipants: number;
 }
 
 export interface GroupProof {
@@ -32,6 +113,10 @@ export interface GroupProof {
   participants: GroupParticipant[];
   proof: string;
   merkleRoot: string;
+  merkleDepth: number;
+  hashAlgorithm: MerkleHashAlgorithm;
+  // Inclusion path for each participant, keyed by commitment
+  inclusionPaths: Record<string, MerkleInclusionPath>;
   timestamp: number;
   blockchainStatus?: "Valid" | "Submitted" | "Confirmed";
   metadata: {
@@ -42,35 +127,34 @@ export interface GroupProof {
 }
 
 export class GroupProofManager {
-  private static readonly SESSION_STORAGE_KEY = 'group-sessions';
-  private static readonly GROUP_PROOFS_KEY = 'group-proofs';
   private static readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+  private static readonly INVITATION_VERSION = 1;
 
   static generateSessionId(): string {
     return 'grp_' + this.generateRandomHex(16);
   }
 
-  static generateSessionKey(): string {
-    return this.generateRandomHex(32);
+  static generateInviteKey(): string {
+    return this.generateRandomHex(64);
   }
 
-  static createSession(
+  static async createSession(
     eventId: string,
     eventName: string,
     hostUserId: string,
     hostUsername: string,
+    hostIdentity: ZKIdentity,
     maxParticipants: number = 10,
     minParticipants: number = 3,
     location?: string
-  ): GroupSession {
+  ): Promise<GroupSession> {
     const sessionId = this.generateSessionId();
     const now = Date.now();
     
     const hostParticipant: GroupParticipant = {
       userId: hostUserId,
       username: hostUsername,
-      commitment: this.generateRandomHex(32),
-      nullifier: this.generateRandomHex(32),
+      ...this.participantSignals(hostIdentity, eventId),
       joinedAt: now,
       isHost: true
     };
@@ -87,89 +171,339 @@ export class GroupProofManager {
       createdAt: now,
       expiresAt: now + this.SESSION_TIMEOUT,
       location,
-      sessionKey: this.generateSessionKey()
+      locked: false,
+      joinRequests: [],
+      auditTrail: []
     };
 
-    this.storeSession(session);
+    // Shared through Supabase so other devices can join; the session, host participant
+    // and invite key are created together
+    const { error } = await supabase.rpc('create_group_session', {
+      p_session_id: sessionId,
+      p_event_id: eventId,
+      p_event_name: eventName,
+      p_max_participants: maxParticipants,
+      p_min_participants: minParticipants,
+      p_location: location ?? null,
+      p_expires_at: new Date(session.expiresAt).toISOString(),
+      p_username: hostUsername,
+      p_commitment: hostParticipant.commitment,
+      p_nullifier: hostParticipant.nullifier
+    });
+    if (error) {
+      throw new Error(`Failed to create session: ${error.message}`);
+    }
+
+    await this.storeSession(session);
     return session;
   }
 
-  static joinSession(
-    sessionId: string,
-    userId: string,
+  // Host only: issue an invite token, by default valid until the session expires
+  static async createInvitation(
+    session: GroupSession,
+    options: { expiresAt?: number; maxParticipants?: number } = {}
+  ): Promise<GroupInvitation> {
+    const expiresAt = Math.min(options.expiresAt ?? session.expiresAt, session.expiresAt);
+    const maxParticipants = options.maxParticipants ?? 0;
+    if (!Number.isInteger(maxParticipants) || maxParticipants < 0) {
+      throw new Error('Participant cap must be a whole number');
+    }
+
+    const inviteKey = await this.fetchInviteKey(session.sessionId);
+    const invitation = { sessionId: session.sessionId, eventId: session.eventId, expiresAt, maxParticipants };
+    return { ...invitation, signature: this.computeInviteToken(inviteKey, invitation) };
+  }
+
+  // Host only: a new invite key revokes every invite token issued under the old one
+  static async revokeInvitations(session: GroupSession): Promise<void> {
+    const { data, error } = await supabase
+      .from('group_session_invite_keys')
+      .update({ invite_key: this.generateInviteKey(), rotated_at: new Date().toISOString() })
+      .eq('session_id', session.sessionId)
+      .select('session_id');
+    if (error) {
+      throw new Error(`Failed to revoke invitations: ${error.message}`);
+    }
+    // RLS filters out the row for anyone but the host
+    if (!data.length) {
+      throw new Error('Only the host can revoke invitations');
+    }
+  }
+
+  // Files a join request for the host to approve. The server checks the invite
+  // token, capacity and expiry under a row lock.
+  static async joinSession(
+    invitation: GroupInvitation,
     username: string,
-    sessionKey?: string
-  ): GroupSession | null {
-    const session = this.getSession(sessionId);
-    
-    if (!session) {
-      throw new Error('Session not found');
+    identity: ZKIdentity
+  ): Promise<GroupSession | null> {
+    if (!invitation?.signature) {
+      throw new Error('An invitation is required to join');
+    }
+    if (Date.now() > invitation.expiresAt) {
+      throw new Error('Invitation has expired');
     }
 
+    const signals = this.participantSignals(identity, invitation.eventId);
+    const { error } = await supabase.rpc('join_group_session', {
+      p_session_id: invitation.sessionId,
+      p_event_id: invitation.eventId,
+      p_invite_expires_at: invitation.expiresAt,
+      p_invite_max_participants: invitation.maxParticipants,
+      p_invite_signature: invitation.signature,
+      p_username: username,
+      p_commitment: signals.commitment,
+      p_nullifier: signals.nullifier
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const session = await this.fetchSession(invitation.sessionId);
+    if (session) {
+      await this.storeSession(session);
+    }
+    return session;
+  }
+
+  // Host ends the session for everyone; the local copy only changes once the server has
+  static async endSession(session: GroupSession): Promise<void> {
+    const { error } = await supabase.rpc('end_group_session', { p_session_id: session.sessionId });
+    if (error) {
+      throw new Error(`Failed to end session: ${error.message}`);
+    }
+
+    session.status = 'expired';
+    await this.storeSession(session);
+  }
+
+  static async leaveSession(session: GroupSession, userId: string): Promise<void> {
     if (session.status !== 'waiting' && session.status !== 'active') {
-      throw new Error('Session is no longer accepting participants');
+      throw new Error('You can only leave before the group proof is generated');
     }
 
-    if (session.participants.length >= session.maxParticipants) {
-      throw new Error('Session is full');
+    const { data, error } = await supabase
+      .from('group_participants')
+      .delete()
+      .eq('session_id', session.sessionId)
+      .eq('user_id', userId)
+      .select('user_id');
+    if (error) {
+      throw new Error(`Failed to leave session: ${error.message}`);
+    }
+    // RLS keeps the row once the session has closed
+    if (!data.length) {
+      throw new Error('The session has closed, so you can no longer leave it');
     }
 
-    if (Date.now() > session.expiresAt) {
-      session.status = 'expired';
-      this.storeSession(session);
-      throw new Error('Session has expired');
+    await this.forgetSession(session.sessionId);
+  }
+
+  // Requester withdraws a join request the host has not decided yet
+  static async cancelJoinRequest(session: GroupSession, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('group_join_requests')
+      .delete()
+      .eq('session_id', session.sessionId)
+      .eq('user_id', userId)
+      .eq('status', 'pending');
+    if (error) {
+      throw new Error(`Failed to cancel join request: ${error.message}`);
+    }
+
+    await this.forgetSession(session.sessionId);
+  }
+
+  // Host only: admit a pending requester; capacity and the lock are re-checked server-side
+  static async approveJoinRequest(session: GroupSession, requestId: string): Promise<GroupSession> {
+    const { error } = await supabase.rpc('approve_group_join_request', { p_request_id: requestId });
+    if (error) {
+      throw new Error(error.message);
+    }
+    return this.reloadSession(session);
+  }
+
+  static async rejectJoinRequest(session: GroupSession, requestId: string): Promise<GroupSession> {
+    const { error } = await supabase.rpc('reject_group_join_request', { p_request_id: requestId });
+    if (error) {
+      throw new Error(error.message);
+    }
+    return this.reloadSession(session);
+  }
+
+  // Host only: participants can be removed until the group proof is generated
+  static async removeParticipant(session: GroupSession, userId: string): Promise<GroupSession> {
+    if (session.status !== 'waiting' && session.status !== 'active') {
+      throw new Error('Participants can only be removed before the group proof is generated');
+    }
+    const participant = session.participants.find(p => p.userId === userId);
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+    if (participant.isHost) {
+      throw new Error('The host cannot be removed');
     }
 
-    // Check if user is already in session
-    if (session.participants.find(p => p.userId === userId)) {
-      return session; // Already joined
+    const { data, error } = await supabase
+      .from('group_participants')
+      .delete()
+      .eq('session_id', session.sessionId)
+      .eq('user_id', userId)
+      .select('user_id');
+    if (error) {
+      throw new Error(`Failed to remove participant: ${error.message}`);
     }
+    // RLS filters out the row for anyone but the host
+    if (!data.length) {
+      throw new Error('Only the host can remove participants');
+    }
+
+    return this.reloadSession(session);
+  }
 
-    // Verify session key if provided
-    if (sessionKey && sessionKey !== session.sessionKey) {
-      throw new Error('Invalid session key');
+  // Host only: a locked session accepts no new participants
+  static async setSessionLocked(session: GroupSession, locked: boolean): Promise<GroupSession> {
+    const { error } = await supabase.rpc('set_group_session_locked', {
+      p_session_id: session.sessionId,
+      p_locked: locked
+    });
+    if (error) {
+      throw new Error(`Failed to ${locked ? 'lock' : 'unlock'} session: ${error.message}`);
     }
 
-    const participant: GroupParticipant = {
-      userId,
-      username,
-      commitment: this.generateRandomHex(32),
-      nullifier: this.generateRandomHex(32),
-      joinedAt: Date.now(),
-      isHost: false
+    return this.reloadSession(session);
+  }
+
+  // Where a user stands in a session; null if they never joined or asked to
+  static getMembership(session: GroupSession, userId: string): GroupMembership | null {
+    if (session.participants.some(p => p.userId === userId)) return 'member';
+
+    const request = session.joinRequests.find(r => r.userId === userId);
+    // Members who left on their own can join again
+    if (!request || request.status === 'left') return null;
+    if (request.status === 'approved') return 'removed';
+    return request.status;
+  }
+
+  // Drop a session from the local cache once the user is done with it
+  static async forgetSession(sessionId: string): Promise<void> {
+    await CredentialStore.delete('groupSessions', sessionId);
+  }
+
+  // Notify on participant joins/leaves, join requests, status changes and the published proof from any device
+  static subscribeToSession(sessionId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`group-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'group_participants', filter: `session_id=eq.${sessionId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'group_sessions', filter: `id=eq.${sessionId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'group_join_requests', filter: `session_id=eq.${sessionId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'group_session_audit', filter: `session_id=eq.${sessionId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'group_proof_publications', filter: `session_id=eq.${sessionId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
     };
+  }
 
-    session.participants.push(participant);
-    
-    // Update session status
-    if (session.participants.length >= session.minParticipants) {
-      session.status = 'active';
+  // Pull every session this user belongs to or is waiting on into the local cache
+  static async syncUserSessions(userId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('group_participants')
+      .select('session_id')
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to load sessions: ${error.message}`);
     }
 
-    this.storeSession(session);
-    return session;
+    const { data: requests, error: requestsError } = await supabase
+      .from('group_join_requests')
+      .select('session_id')
+      .eq('user_id', userId)
+      .eq('status', 'pending');
+    if (requestsError) {
+      throw new Error(`Failed to load sessions: ${requestsError.message}`);
+    }
+
+    for (const { session_id } of [...data, ...requests]) {
+      const session = await this.fetchSession(session_id);
+      if (session) {
+        await this.storeSession(session);
+      }
+    }
   }
 
-  static generateGroupProof(session: GroupSession): GroupProof {
+  // Host only: the tree is published and the session locked and completed in one server-side
+  // step, which refuses it unless it covers exactly the roster the server froze
+  static async generateGroupProof(session: GroupSession): Promise<GroupProof> {
     if (session.participants.length < session.minParticipants) {
       throw new Error(`Minimum ${session.minParticipants} participants required`);
     }
 
-    // Generate Merkle root from all participant commitments
+    // Build Merkle tree from all participant commitments
     const commitments = session.participants.map(p => p.commitment);
-    const merkleRoot = this.generateMerkleRoot(commitments);
+    const tree = MerkleTree.fromCommitments(commitments);
+    const merkleRoot = tree.root;
+
+    const inclusionPaths: Record<string, MerkleInclusionPath> = {};
+    for (const commitment of commitments) {
+      inclusionPaths[commitment] = tree.getInclusionPath(commitment);
+    }
     
     // Generate group proof
+    const proofId = 'gproof_' + this.generateRandomHex(16);
     const proofString = this.generateGroupProofString(session, merkleRoot);
+
+    const { data, error } = await supabase.rpc('finalize_group_session', {
+      p_session_id: session.sessionId,
+      p_group_proof_id: proofId,
+      p_commitments: commitments,
+      p_merkle_root: merkleRoot,
+      p_merkle_depth: tree.depth,
+      p_hash_algorithm: tree.hashAlgorithm,
+      p_inclusion_paths: inclusionPaths as unknown as Json,
+      p_proof: proofString
+    });
+    if (error) {
+      throw new Error(`Failed to finalize session: ${error.message}`);
+    }
+
+    session.participants = data.map(p => this.toGroupParticipant(p));
+    session.locked = true;
+    session.status = 'completed';
+    await this.storeSession(session);
     
     const groupProof: GroupProof = {
-      id: 'gproof_' + this.generateRandomHex(16),
+      id: proofId,
       sessionId: session.sessionId,
       eventId: session.eventId,
       eventName: session.eventName,
       participants: [...session.participants],
       proof: proofString,
       merkleRoot,
+      merkleDepth: tree.depth,
+      hashAlgorithm: tree.hashAlgorithm,
+      inclusionPaths,
       timestamp: Date.now(),
       metadata: {
         location: session.location,
@@ -178,21 +512,99 @@ export class GroupProofManager {
       }
     };
 
-    // Mark session as completed
-    session.status = 'completed';
-    this.storeSession(session);
-
     // Store group proof
-    this.storeGroupProof(groupProof);
+    await this.storeGroupProof(groupProof);
     
     return groupProof;
   }
 
-  private static generateMerkleRoot(commitments: string[]): string {
-    // Simple mock Merkle root generation
-    // In real implementation, this would be a proper Merkle tree
-    const combined = commitments.sort().join('');
-    return 'merkle_' + this.hashString(combined);
+  // Members: load the proof the host published for a completed session. The root must match
+  // the session's frozen roster and every published path must lead to it.
+  static async fetchPublishedProof(session: GroupSession): Promise<GroupProof | null> {
+    const { data, error } = await supabase
+      .from('group_proof_publications')
+      .select('*')
+      .eq('session_id', session.sessionId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load group proof: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const hashAlgorithm = data.hash_algorithm as MerkleHashAlgorithm;
+    const tree = MerkleTree.fromCommitments(session.participants.map(p => p.commitment));
+    if (hashAlgorithm !== tree.hashAlgorithm || tree.root !== data.merkle_root) {
+      throw new Error('Published group proof does not match the session roster');
+    }
+
+    const inclusionPaths = data.inclusion_paths as unknown as Record<string, MerkleInclusionPath>;
+    for (const participant of session.participants) {
+      const path = inclusionPaths[participant.commitment];
+      if (!path || !MerkleTree.verify(participant.commitment, path, data.merkle_root, hashAlgorithm)) {
+        throw new Error('Published group proof has an invalid inclusion path');
+      }
+    }
+
+    const publishedAt = new Date(data.published_at).getTime();
+    const groupProof: GroupProof = {
+      id: data.group_proof_id,
+      sessionId: session.sessionId,
+      eventId: session.eventId,
+      eventName: session.eventName,
+      participants: [...session.participants],
+      proof: data.proof,
+      merkleRoot: data.merkle_root,
+      merkleDepth: data.merkle_depth,
+      hashAlgorithm,
+      inclusionPaths,
+      timestamp: publishedAt,
+      metadata: {
+        location: session.location,
+        sessionDuration: publishedAt - session.createdAt,
+        participantCount: session.participants.length
+      }
+    };
+
+    await this.storeGroupProof(groupProof);
+    return groupProof;
+  }
+
+  // Fetch published proofs for completed sessions this user was a member of but did not host
+  static async syncPublishedProofs(userId: string): Promise<void> {
+    const stored = new Set((await this.getStoredGroupProofs()).map(p => p.sessionId));
+    const sessions = (await this.getStoredSessions()).filter(s =>
+      s.status === 'completed' &&
+      s.hostUserId !== userId &&
+      this.getMembership(s, userId) === 'member' &&
+      !stored.has(s.sessionId)
+    );
+
+    for (const session of sessions) {
+      await this.fetchPublishedProof(session);
+    }
+  }
+
+  static async getMembershipPath(groupProofId: string, commitment: string): Promise<MerkleInclusionPath | null> {
+    const proof = await CredentialStore.get<GroupProof>('groupProofs', groupProofId);
+    return proof?.inclusionPaths?.[commitment] || null;
+  }
+
+  // Verify that a commitment was part of a group proof, without the other members
+  static verifyMembership(
+    commitment: string,
+    path: MerkleInclusionPath,
+    root: string,
+    hashAlgorithm: MerkleHashAlgorithm = 'keccak256'
+  ): boolean {
+    return MerkleTree.verify(commitment, path, root, hashAlgorithm);
+  }
+
+  // Public values a member contributes: their identity commitment and event-scoped nullifier
+  private static participantSignals(identity: ZKIdentity, eventId: string): Pick<GroupParticipant, 'commitment' | 'nullifier'> {
+    return {
+      commitment: identity.identityCommitment,
+      nullifier: ZKIdentityManager.computeEventNullifier(identity, eventId)
+    };
   }
 
   private static generateGroupProofString(session: GroupSession, merkleRoot: string): string {
@@ -218,110 +630,241 @@ export class GroupProofManager {
     return Math.abs(hash).toString(16).padStart(8, '0');
   }
 
-  static getSession(sessionId: string): GroupSession | null {
-    const sessions = this.getStoredSessions();
-    return sessions.find(s => s.sessionId === sessionId) || null;
+  // Latest server copy, falling back to the local cache when offline
+  static async getSession(sessionId: string): Promise<GroupSession | null> {
+    const cached = await CredentialStore.get<GroupSession>('groupSessions', sessionId);
+
+    try {
+      const session = await this.fetchSession(sessionId);
+      if (session) {
+        await this.storeSession(session);
+        return session;
+      }
+    } catch (error) {
+      console.warn('Failed to fetch group session, using local copy:', error);
+    }
+
+    return cached ? this.withModerationDefaults(cached) : null;
+  }
+
+  private static async reloadSession(session: GroupSession): Promise<GroupSession> {
+    return (await this.getSession(session.sessionId)) ?? session;
+  }
+
+  private static async fetchSession(sessionId: string): Promise<GroupSession | null> {
+    const { data: row, error } = await supabase
+      .from('group_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!row) return null;
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('group_participants')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('joined_at', { ascending: true });
+    if (participantsError) throw new Error(participantsError.message);
+
+    const { data: requests, error: requestsError } = await supabase
+      .from('group_join_requests')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('requested_at', { ascending: true });
+    if (requestsError) throw new Error(requestsError.message);
+
+    const { data: audit, error: auditError } = await supabase
+      .from('group_session_audit')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('id', { ascending: true });
+    if (auditError) throw new Error(auditError.message);
+
+    return this.toGroupSession(row, participants, requests, audit);
+  }
+
+  private static toGroupSession(
+    row: GroupSessionRow,
+    participants: GroupParticipantRow[],
+    requests: GroupJoinRequestRow[],
+    audit: GroupAuditRow[]
+  ): GroupSession {
+    return {
+      sessionId: row.id,
+      eventId: row.event_id,
+      eventName: row.event_name,
+      hostUserId: row.host_user_id,
+      participants: participants.map(p => this.toGroupParticipant(p)),
+      maxParticipants: row.max_participants,
+      minParticipants: row.min_participants,
+      status: row.status as GroupSession['status'],
+      createdAt: new Date(row.created_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime(),
+      location: row.location ?? undefined,
+      locked: row.locked,
+      joinRequests: requests.map(r => ({
+        id: r.id,
+        userId: r.user_id,
+        username: r.username,
+        commitment: r.commitment,
+        status: r.status as GroupJoinRequest['status'],
+        requestedAt: new Date(r.requested_at).getTime(),
+        decidedAt: r.decided_at ? new Date(r.decided_at).getTime() : undefined
+      })),
+      auditTrail: audit.map(a => ({
+        id: a.id,
+        action: a.action as GroupAuditAction,
+        actorUserId: a.actor_user_id ?? undefined,
+        subjectUserId: a.subject_user_id ?? undefined,
+        subjectUsername: a.subject_username ?? undefined,
+        detail: a.detail ?? undefined,
+        timestamp: new Date(a.created_at).getTime()
+      }))
+    };
+  }
+
+  private static toGroupParticipant(row: GroupParticipantRow): GroupParticipant {
+    return {
+      userId: row.user_id,
+      username: row.username,
+      commitment: row.commitment,
+      nullifier: row.nullifier,
+      joinedAt: new Date(row.joined_at).getTime(),
+      isHost: row.is_host
+    };
+  }
+
+  // Sessions cached before moderation existed lack these fields
+  private static withModerationDefaults(session: GroupSession): GroupSession {
+    return { locked: false, joinRequests: [], auditTrail: [], ...session };
+  }
+
+  // RLS only lets the host read the key
+  private static async fetchInviteKey(sessionId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('group_session_invite_keys')
+      .select('invite_key')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) throw new Error('Only the host can invite participants');
+    return data.invite_key;
+  }
+
+  // Must match the message join_group_session recomputes
+  private static invitationMessage(invitation: Omit<GroupInvitation, 'signature'>): string {
+    return [
+      'zkpresence-group-invite',
+      this.INVITATION_VERSION,
+      invitation.sessionId,
+      invitation.eventId,
+      invitation.expiresAt,
+      invitation.maxParticipants
+    ].join(':');
+  }
+
+  private static computeInviteToken(inviteKey: string, invitation: Omit<GroupInvitation, 'signature'>): string {
+    return ethers.computeHmac(
+      'sha256',
+      '0x' + inviteKey,
+      ethers.toUtf8Bytes(this.invitationMessage(invitation))
+    ).slice(2);
   }
 
-  static getUserSessions(userId: string): GroupSession[] {
-    const sessions = this.getStoredSessions();
+  static async getUserSessions(userId: string): Promise<GroupSession[]> {
+    const sessions = await this.getStoredSessions();
+    // Requesters and removed participants keep the session until they dismiss it
     return sessions.filter(s => 
-      s.participants.some(p => p.userId === userId) && 
+      this.getMembership(s, userId) !== null &&
       s.status !== 'expired'
     );
   }
 
-  static getActiveSessionsForEvent(eventId: string): GroupSession[] {
-    const sessions = this.getStoredSessions();
-    return sessions.filter(s => 
-      s.eventId === eventId && 
+  static async getActiveSessionsForEvent(eventId: string): Promise<GroupSession[]> {
+    const sessions = await CredentialStore.getAll<GroupSession>('groupSessions', 'eventId', eventId);
+    return sessions.map(s => this.withModerationDefaults(s)).filter(s => 
       (s.status === 'waiting' || s.status === 'active') &&
       Date.now() < s.expiresAt
     );
   }
 
-  static storeSession(session: GroupSession): void {
-    const sessions = this.getStoredSessions();
-    const index = sessions.findIndex(s => s.sessionId === session.sessionId);
-    
-    if (index >= 0) {
-      sessions[index] = session;
-    } else {
-      sessions.push(session);
-    }
-    
-    localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(sessions));
+  static async storeSession(session: GroupSession): Promise<void> {
+    await CredentialStore.put('groupSessions', session);
   }
 
-  static getStoredSessions(): GroupSession[] {
+  // All sessions, oldest first
+  static async getStoredSessions(): Promise<GroupSession[]> {
     try {
-      const stored = localStorage.getItem(this.SESSION_STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      const sessions = await CredentialStore.getAll<GroupSession>('groupSessions', 'timestamp');
+      return sessions.map(s => this.withModerationDefaults(s));
     } catch {
       return [];
     }
   }
 
-  static storeGroupProof(proof: GroupProof): void {
-    const proofs = this.getStoredGroupProofs();
-    proofs.push(proof);
-    localStorage.setItem(this.GROUP_PROOFS_KEY, JSON.stringify(proofs));
+  static async storeGroupProof(proof: GroupProof): Promise<void> {
+    await CredentialStore.put('groupProofs', proof);
   }
 
-  static getStoredGroupProofs(): GroupProof[] {
+  // All group proofs, oldest first
+  static async getStoredGroupProofs(): Promise<GroupProof[]> {
     try {
-      const stored = localStorage.getItem(this.GROUP_PROOFS_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return await CredentialStore.getAll<GroupProof>('groupProofs', 'timestamp');
     } catch {
       return [];
     }
   }
 
-  static generateQRData(session: GroupSession): string {
-    return JSON.stringify({
+  static async generateQRData(session: GroupSession): Promise<string> {
+    const invitation = await this.createInvitation(session);
+    const qrData: GroupInvitationQRData = {
       type: 'group_session',
-      sessionId: session.sessionId,
-      eventId: session.eventId,
+      version: this.INVITATION_VERSION,
+      ...invitation,
       eventName: session.eventName,
-      sessionKey: session.sessionKey,
       hostUsername: session.participants.find(p => p.isHost)?.username || 'Unknown',
       participantCount: session.participants.length,
-      maxParticipants: session.maxParticipants,
-      expiresAt: session.expiresAt
-    });
+      sessionMaxParticipants: session.maxParticipants
+    };
+    return JSON.stringify(qrData);
   }
 
-  static parseQRData(qrData: string): any {
+  static parseQRData(qrData: string): GroupInvitationQRData | null {
     try {
       const parsed = JSON.parse(qrData);
-      if (parsed.type === 'group_session') {
-        return parsed;
+      if (
+        parsed?.type !== 'group_session' ||
+        parsed.version !== this.INVITATION_VERSION ||
+        typeof parsed.sessionId !== 'string' ||
+        typeof parsed.eventId !== 'string' ||
+        typeof parsed.expiresAt !== 'number' ||
+        typeof parsed.maxParticipants !== 'number' ||
+        typeof parsed.signature !== 'string'
+      ) {
+        return null;
       }
-      return null;
+      return parsed as GroupInvitationQRData;
     } catch {
       return null;
     }
   }
 
-  static cleanupExpiredSessions(): void {
-    const sessions = this.getStoredSessions();
+  static async cleanupExpiredSessions(): Promise<void> {
     const now = Date.now();
-    const activeSessions = sessions.filter(s => {
+    await CredentialStore.updateAll<GroupSession>('groupSessions', s => {
       if (now > s.expiresAt && s.status !== 'completed') {
         s.status = 'expired';
       }
-      return s.status !== 'expired' || (now - s.expiresAt) < 24 * 60 * 60 * 1000; // Keep for 24h
+      const keep = s.status !== 'expired' || (now - s.expiresAt) < 24 * 60 * 60 * 1000; // Keep for 24h
+      return keep ? s : null;
     });
-    
-    localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(activeSessions));
   }
 
+  // Invite keys gate who may join, so they come from the CSPRNG
   private static generateRandomHex(length: number): string {
-    const chars = '0123456789abcdef';
-    let result = '';
-    for (let i = 0; i < length; i++) {
-      result += chars[Math.floor(Math.random() * chars.length)];
-    }
-    return result;
+    const bytes = new Uint8Array(Math.ceil(length / 2));
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').slice(0, length);
   }
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+// Binary Merkle Tree for group membership proofs
+// Leaves are participant commitments; inclusion paths let a member prove
+// membership against a published root without revealing the other leaves.
+
+import { ethers } from 'ethers';
+
+export type MerkleHashAlgorithm = 'keccak256';
+
+export interface MerkleInclusionPath {
+  leafIndex: number;
+  siblings: string[];
+  // 0 when the node on this level is a left child, 1 when it is a right child
+  pathIndices: number[];
+}
+
+// Domain separation prefixes so a leaf can never be passed off as an inner node
+const LEAF_PREFIX = '0x00';
+const NODE_PREFIX = '0x01';
+
+// Identity commitments as ZKIdentityManager writes them
+const COMMITMENT_PATTERN = /^0x[0-9a-f]{64}$/;
+
+export class MerkleTree {
+  readonly hashAlgorithm: MerkleHashAlgorithm;
+  readonly depth: number;
+  readonly leafCount: number;
+  private readonly layers: string[][];
+  private readonly commitments: string[];
+
+  private constructor(commitments: string[], hashAlgorithm: MerkleHashAlgorithm) {
+    if (commitments.length === 0) {
+      throw new Error('Cannot build a Merkle tree without commitments');
+    }
+
+    this.hashAlgorithm = hashAlgorithm;
+    // Sort so every participant rebuilds the exact same tree
+    this.commitments = [...commitments].sort();
+    this.leafCount = this.commitments.length;
+    this.depth = Math.ceil(Math.log2(this.leafCount));
+
+    const width = 2 ** this.depth;
+    const leaves = this.commitments.map(c => MerkleTree.hashLeaf(c, hashAlgorithm));
+    while (leaves.length < width) {
+      leaves.push(ethers.ZeroHash);
+    }
+
+    this.layers = [leaves];
+    for (let level = 0; level < this.depth; level++) {
+      const current = this.layers[level];
+      const next: string[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(MerkleTree.hashNode(current[i], current[i + 1], hashAlgorithm));
+      }
+      this.layers.push(next);
+    }
+  }
+
+  static fromCommitments(
+    commitments: string[],
+    hashAlgorithm: MerkleHashAlgorithm = 'keccak256'
+  ): MerkleTree {
+    return new MerkleTree(commitments, hashAlgorithm);
+  }
+
+  get root(): string {
+    return this.layers[this.depth][0];
+  }
+
+  // Get the inclusion path for a single commitment
+  getInclusionPath(commitment: string): MerkleInclusionPath {
+    const leafIndex = this.commitments.indexOf(commitment);
+    if (leafIndex < 0) {
+      throw new Error('Commitment is not a member of this tree');
+    }
+
+    const siblings: string[] = [];
+    const pathIndices: number[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.depth; level++) {
+      const isRight = index % 2 === 1;
+      siblings.push(this.layers[level][isRight ? index - 1 : index + 1]);
+      pathIndices.push(isRight ? 1 : 0);
+      index = Math.floor(index / 2);
+    }
+
+    return { leafIndex, siblings, pathIndices };
+  }
+
+  // Recompute the root from a commitment and its path and compare
+  static verify(
+    commitment: string,
+    path: MerkleInclusionPath,
+    root: string,
+    hashAlgorithm: MerkleHashAlgorithm = 'keccak256'
+  ): boolean {
+    try {
+      if (path.siblings.length !== path.pathIndices.length) return false;
+
+      let node = this.hashLeaf(commitment, hashAlgorithm);
+      for (let level = 0; level < path.siblings.length; level++) {
+        const sibling = path.siblings[level];
+        node = path.pathIndices[level] === 1
+          ? this.hashNode(sibling, node, hashAlgorithm)
+          : this.hashNode(node, sibling, hashAlgorithm);
+      }
+
+      return node.toLowerCase() === root.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  private static hashLeaf(commitment: string, hashAlgorithm: MerkleHashAlgorithm): string {
+    return this.hash(ethers.concat([LEAF_PREFIX, this.commitmentToBytes(commitment)]), hashAlgorithm);
+  }
+
+  private static hashNode(left: string, right: string, hashAlgorithm: MerkleHashAlgorithm): string {
+    return this.hash(ethers.concat([NODE_PREFIX, left, right]), hashAlgorithm);
+  }
+
+  private static hash(data: ethers.BytesLike, hashAlgorithm: MerkleHashAlgorithm): string {
+    switch (hashAlgorithm) {
+      case 'keccak256':
+        return ethers.keccak256(data);
+      default:
+        throw new Error(`Unsupported hash algorithm: ${hashAlgorithm}`);
+    }
+  }
+
+  // Commitments must be canonical 0x-prefixed, lowercase 32-byte hex, so each leaf has
+  // exactly one encoding
+  private static commitmentToBytes(commitment: string): Uint8Array {
+    if (!COMMITMENT_PATTERN.test(commitment)) {
+      throw new Error(`Invalid commitment: expected 0x-prefixed 32-byte hex, got ${commitment}`);
+    }
+    return ethers.getBytes(commitment);
+  }
+}
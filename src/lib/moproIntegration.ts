@@ -1,203 +1,155 @@
 // MoPro SDK Integration
-// This module handles the integration with MoPro SDK for ZK proof generation
+// Builds circuit inputs and credentials for the app's proofs. Proving is delegated
+// to the prover registry, which picks MoPro when the native SDK is present and the
+// in-browser snarkjs worker otherwise.
+
+import { ethers } from 'ethers';
+import { isCircuitName, toNamedSignals } from '@/circuits/signals';
+import { MoProProver, type MoProIdentity } from './moproProver';
+import { ProverRegistry, type CircuitInput, type CircuitName } from './prover';
 
 interface MoProCredential {
   id: string;
-  proof: Uint8Array;
+  // Raw proof bytes from MoPro, or a JSON-encoded Groth16 proof from snarkjs
+  proof: Uint8Array | string;
   publicSignals: string[];
   verificationKey: string;
   metadata: any;
 }
 
-interface MoProIdentity {
-  commitment: string;
-  nullifier: string;
-  privateKey: string;
-  publicKey: string;
-}
+// BN254 scalar field used by the circuits
+const SNARK_SCALAR_FIELD = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
 
-class MoProIntegration {
-  private static instance: any = null;
-  private static isInitialized = false;
+// Uniqueness nullifiers are scoped to this app
+const UNIQUENESS_SCOPE = 'zkpresence:uniqueness';
+
+// Credentials made before backends were recorded all came from MoPro
+const LEGACY_PROVER = MoProProver.id;
 
-  // Check if MoPro is available
+class MoProIntegration {
+  // Check if the native MoPro SDK is available
   static isMoProAvailable(): boolean {
-    try {
-      // Try to detect MoPro SDK
-      return typeof window !== 'undefined' && 
-             (window as any).mopro !== undefined;
-    } catch (error) {
-      return false;
-    }
+    return MoProProver.isAvailable();
   }
 
-  // Initialize MoPro SDK
+  // Initialize MoPro SDK; the in-browser prover needs no setup
   static async initialize(): Promise<boolean> {
-    if (this.isInitialized) return true;
-
-    try {
-      if (!this.isMoProAvailable()) {
-        console.warn('MoPro SDK not available, falling back to mock implementation');
-        return false;
-      }
-
-      // Initialize MoPro SDK
-      const mopro = (window as any).mopro;
-      this.instance = await mopro.initialize();
-      this.isInitialized = true;
-      
-      console.log('MoPro SDK initialized successfully');
-      return true;
-    } catch (error) {
-      console.error('Failed to initialize MoPro SDK:', error);
-      return false;
+    const initialized = await MoProProver.initialize();
+    if (!initialized) {
+      console.warn('MoPro SDK not available, proving in the browser');
     }
+    return initialized;
   }
 
   // Generate ZK identity using MoPro
   static async generateIdentity(): Promise<MoProIdentity | null> {
-    try {
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) return null;
-      }
-
-      // Use MoPro to generate identity
-      const identity = await this.instance.generateIdentity();
-      
-      return {
-        commitment: identity.commitment,
-        nullifier: identity.nullifier,
-        privateKey: identity.privateKey,
-        publicKey: identity.publicKey
-      };
-    } catch (error) {
-      console.error('Failed to generate MoPro identity:', error);
-      return null;
-    }
+    return MoProProver.generateIdentity();
   }
 
-  // Generate age credential using MoPro
+  // Proves age >= minAge; the age itself stays hidden behind a salted commitment
   static async generateAgeCredential(age: number, minAge: number = 18): Promise<MoProCredential | null> {
-    try {
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) return null;
-      }
-
-      // Generate age proof circuit
-      const proof = await this.instance.generateProof('age_verification', {
-        age: age,
-        min_age: minAge,
-        timestamp: Date.now()
-      });
-
-      return {
-        id: this.generateId(),
-        proof: proof.proof,
-        publicSignals: proof.publicSignals,
-        verificationKey: proof.verificationKey,
-        metadata: {
-          type: 'age_verification',
-          minAge: minAge,
-          timestamp: Date.now()
-        }
-      };
-    } catch (error) {
-      console.error('Failed to generate age credential:', error);
-      return null;
+    if (!Number.isInteger(age) || age < 0 || age > 255) {
+      throw new Error('Age must be a whole number between 0 and 255');
+    }
+    if (age < minAge) {
+      throw new Error(`Age must be ${minAge} or older`);
     }
-  }
-
-  // Generate uniqueness credential using MoPro
-  static async generateUniquenessCredential(userSecret: string): Promise<MoProCredential | null> {
-    try {
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) return null;
-      }
 
-      // Generate uniqueness proof
-      const proof = await this.instance.generateProof('uniqueness', {
-        secret: userSecret,
-        timestamp: Date.now()
-      });
+    return this.prove('age_verification', {
+      age,
+      salt: this.randomFieldElement().toString(),
+      minAge
+    }, { minAge });
+  }
 
-      return {
-        id: this.generateId(),
-        proof: proof.proof,
-        publicSignals: proof.publicSignals,
-        verificationKey: proof.verificationKey,
-        metadata: {
-          type: 'uniqueness',
-          timestamp: Date.now()
-        }
-      };
-    } catch (error) {
-      console.error('Failed to generate uniqueness credential:', error);
-      return null;
+  // The secret is the identity nullifier, so each identity has exactly one nullifier per scope
+  // and the commitment equals the identity's nullifier hash
+  static async generateUniquenessCredential(identityNullifier: string): Promise<MoProCredential | null> {
+    const credential = await this.prove('uniqueness', {
+      secret: this.toSignal(identityNullifier),
+      scope: this.toFieldElement(UNIQUENESS_SCOPE).toString()
+    });
+    if (credential) {
+      credential.metadata.nullifier = toNamedSignals('uniqueness', credential.publicSignals).nullifier;
     }
+    return credential;
   }
 
-  // Generate event attendance credential using MoPro
+  // Generate event attendance credential for one identity and event
   static async generateEventCredential(
-    eventId: string, 
-    eventName: string, 
-    location?: string
+    eventId: string,
+    eventName: string,
+    location: string | undefined,
+    scope: {
+      // Identity secrets; the circuit checks them against the public commitment
+      identityTrapdoor: string;
+      identityNullifier: string;
+      identityCommitment: string;
+      externalNullifier: string;
+      // Public EIP-712 hash of the organizer check-in, 0 without one
+      checkInDigest?: string;
+    }
   ): Promise<MoProCredential | null> {
-    try {
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) return null;
-      }
-
-      // Generate event attendance proof
-      const proof = await this.instance.generateProof('event_attendance', {
-        event_id: eventId,
-        event_name: eventName,
-        location: location || '',
-        timestamp: Date.now()
-      });
+    return this.prove('event_attendance', {
+      identityTrapdoor: this.toSignal(scope.identityTrapdoor),
+      identityNullifier: this.toSignal(scope.identityNullifier),
+      checkInDigest: scope.checkInDigest ? this.toSignal(scope.checkInDigest) : '0',
+      externalNullifier: this.toSignal(scope.externalNullifier),
+      identityCommitment: this.toSignal(scope.identityCommitment)
+    }, { eventId, eventName, location });
+  }
+
+  // Verify a credential with the backend that produced it
+  static async verifyCredential(credential: MoProCredential): Promise<boolean> {
+    const circuit = credential.metadata?.circuit ?? credential.metadata?.type;
+    if (!isCircuitName(circuit)) return false;
+
+    return ProverRegistry.verify(
+      credential.metadata?.prover ?? LEGACY_PROVER,
+      circuit,
+      credential.proof,
+      credential.publicSignals,
+      credential.verificationKey
+    );
+  }
 
+  private static async prove<C extends CircuitName>(
+    circuit: C,
+    inputs: CircuitInput<C>,
+    metadata: Record<string, unknown> = {}
+  ): Promise<MoProCredential | null> {
+    try {
+      const { proof, publicSignals, verificationKey, prover } = await ProverRegistry.prove(circuit, inputs);
       return {
         id: this.generateId(),
-        proof: proof.proof,
-        publicSignals: proof.publicSignals,
-        verificationKey: proof.verificationKey,
+        proof,
+        publicSignals,
+        verificationKey,
         metadata: {
-          type: 'event_attendance',
-          eventId,
-          eventName,
-          location,
+          ...metadata,
+          type: circuit,
+          circuit,
+          prover,
           timestamp: Date.now()
         }
       };
     } catch (error) {
-      console.error('Failed to generate event credential:', error);
+      console.error(`Failed to generate ${circuit} credential:`, error);
       return null;
     }
   }
 
-  // Verify credential using MoPro
-  static async verifyCredential(credential: MoProCredential): Promise<boolean> {
-    try {
-      if (!this.isInitialized) {
-        const initialized = await this.initialize();
-        if (!initialized) return false;
-      }
-
-      // Verify proof using MoPro
-      const isValid = await this.instance.verifyProof(
-        credential.proof,
-        credential.publicSignals,
-        credential.verificationKey
-      );
-
-      return isValid;
-    } catch (error) {
-      console.error('Failed to verify credential:', error);
-      return false;
-    }
+  // Reduce a hex or decimal value into the scalar field as a decimal signal
+  private static toSignal(value: string): string {
+    return (BigInt(value) % SNARK_SCALAR_FIELD).toString();
+  }
+
+  private static toFieldElement(value: string): bigint {
+    return BigInt(ethers.keccak256(ethers.toUtf8Bytes(value))) % SNARK_SCALAR_FIELD;
+  }
+
+  private static randomFieldElement(): bigint {
+    return BigInt(ethers.hexlify(ethers.randomBytes(32))) % SNARK_SCALAR_FIELD;
   }
 
   // Generate secure random ID
@@ -207,14 +159,13 @@ class MoProIntegration {
     return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
   }
 
-  // Get MoPro status
+  // Get prover status
   static getStatus() {
     return {
-      available: this.isMoProAvailable(),
-      initialized: this.isInitialized,
-      version: this.instance?.version || 'unknown'
+      ...MoProProver.getStatus(),
+      prover: ProverRegistry.select('event_attendance')?.id ?? null
     };
   }
 }
 
-export { MoProIntegration, type MoProCredential, type MoProIdentity };
\ No newline at end of file
+export { MoProIntegration, type MoProCredential, type MoProIdentity };
@@ -0,0 +1,112 @@
+// Native MoPro SDK prover backend
+// Only present when the app runs inside a MoPro-enabled host that injects window.mopro.
+
+import type { CircuitInput, CircuitName, ProofResult } from './prover';
+
+interface MoProIdentity {
+  commitment: string;
+  nullifier: string;
+  privateKey: string;
+  publicKey: string;
+}
+
+class MoProProver {
+  static readonly id = 'mopro';
+
+  private static instance: any = null;
+  private static isInitialized = false;
+
+  // Check if MoPro is available
+  static isAvailable(): boolean {
+    try {
+      // Try to detect MoPro SDK
+      return typeof window !== 'undefined' &&
+             (window as any).mopro !== undefined;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Initialize MoPro SDK
+  static async initialize(): Promise<boolean> {
+    if (this.isInitialized) return true;
+
+    try {
+      if (!this.isAvailable()) {
+        return false;
+      }
+
+      // Initialize MoPro SDK
+      const mopro = (window as any).mopro;
+      this.instance = await mopro.initialize();
+      this.isInitialized = true;
+
+      console.log('MoPro SDK initialized successfully');
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize MoPro SDK:', error);
+      return false;
+    }
+  }
+
+  // The SDK ships all app circuits
+  static supports(_circuit: CircuitName): boolean {
+    return true;
+  }
+
+  static async prove<C extends CircuitName>(circuit: C, inputs: CircuitInput<C>): Promise<Omit<ProofResult, 'prover'>> {
+    await this.requireInstance();
+    const proof = await this.instance.generateProof(circuit, inputs);
+    return {
+      proof: proof.proof,
+      publicSignals: proof.publicSignals,
+      verificationKey: proof.verificationKey
+    };
+  }
+
+  static async verify(
+    _circuit: CircuitName,
+    proof: ProofResult['proof'],
+    publicSignals: string[],
+    verificationKey: string
+  ): Promise<boolean> {
+    await this.requireInstance();
+    return this.instance.verifyProof(proof, publicSignals, verificationKey);
+  }
+
+  // Generate ZK identity using MoPro
+  static async generateIdentity(): Promise<MoProIdentity | null> {
+    try {
+      if (!(await this.initialize())) return null;
+
+      // Use MoPro to generate identity
+      const identity = await this.instance.generateIdentity();
+
+      return {
+        commitment: identity.commitment,
+        nullifier: identity.nullifier,
+        privateKey: identity.privateKey,
+        publicKey: identity.publicKey
+      };
+    } catch (error) {
+      console.error('Failed to generate MoPro identity:', error);
+      return null;
+    }
+  }
+
+  static getStatus() {
+    return {
+      available: this.isAvailable(),
+      initialized: this.isInitialized,
+      version: this.instance?.version || 'unknown'
+    };
+  }
+
+  private static async requireInstance(): Promise<void> {
+    if (!(await this.initialize())) {
+      throw new Error('MoPro SDK failed to initialize');
+    }
+  }
+}
+
+export { MoProProver, type MoProIdentity };
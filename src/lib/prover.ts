@@ -0,0 +1,103 @@
+// Pluggable ZK prover backends
+// Every backend proves the same circuits with the same input names, so credentials
+// only record which backend made them. The first available backend that supports
+// a circuit is used, falling through to the next one if it fails at runtime.
+
+import type { CircuitInput, CircuitName } from '@/circuits/signals';
+import { MoProProver } from './moproProver';
+import { SnarkjsProver } from './snarkjsProver';
+
+export type { CircuitInput, CircuitName };
+
+export interface ProofResult {
+  // Raw proof bytes from MoPro, or a JSON-encoded Groth16 proof from snarkjs
+  proof: Uint8Array | string;
+  publicSignals: string[];
+  verificationKey: string;
+  // Backend that produced the proof, needed to verify it later
+  prover: string;
+}
+
+export interface ProverBackend {
+  readonly id: string;
+  // Runtime capability check, e.g. native SDK present or WebAssembly + Worker support
+  isAvailable(): boolean;
+  supports(circuit: CircuitName): boolean;
+  prove<C extends CircuitName>(circuit: C, inputs: CircuitInput<C>): Promise<Omit<ProofResult, 'prover'>>;
+  verify(
+    circuit: CircuitName,
+    proof: ProofResult['proof'],
+    publicSignals: string[],
+    verificationKey: string
+  ): Promise<boolean>;
+}
+
+class ProverRegistry {
+  // Preference order: native MoPro first, then in-browser snarkjs
+  private static backends: ProverBackend[] = [MoProProver, SnarkjsProver];
+
+  // Add a backend; preferred backends are tried before the built-in ones
+  static register(backend: ProverBackend, preferred = false): void {
+    this.backends = this.backends.filter(b => b.id !== backend.id);
+    if (preferred) {
+      this.backends.unshift(backend);
+    } else {
+      this.backends.push(backend);
+    }
+  }
+
+  static get(id: string): ProverBackend | undefined {
+    return this.backends.find(backend => backend.id === id);
+  }
+
+  // Backends able to prove a circuit on this device, in preference order
+  static candidates(circuit: CircuitName): ProverBackend[] {
+    return this.backends.filter(backend => backend.isAvailable() && backend.supports(circuit));
+  }
+
+  static select(circuit: CircuitName): ProverBackend | null {
+    return this.candidates(circuit)[0] ?? null;
+  }
+
+  static async prove<C extends CircuitName>(circuit: C, inputs: CircuitInput<C>): Promise<ProofResult> {
+    const candidates = this.candidates(circuit);
+    if (candidates.length === 0) {
+      throw new Error(`No prover available for ${circuit} on this device`);
+    }
+
+    let lastError: unknown;
+    for (const backend of candidates) {
+      try {
+        const result = await backend.prove(circuit, inputs);
+        return { ...result, prover: backend.id };
+      } catch (error) {
+        console.warn(`Prover ${backend.id} failed for ${circuit}:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // Verify with the backend that made the proof; unknown or unavailable backends fail closed
+  static async verify(
+    prover: string,
+    circuit: CircuitName,
+    proof: ProofResult['proof'],
+    publicSignals: string[],
+    verificationKey: string
+  ): Promise<boolean> {
+    const backend = this.get(prover);
+    if (!backend || !backend.isAvailable() || !backend.supports(circuit)) {
+      return false;
+    }
+
+    try {
+      return await backend.verify(circuit, proof, publicSignals, verificationKey);
+    } catch (error) {
+      console.error(`Prover ${prover} failed to verify ${circuit}:`, error);
+      return false;
+    }
+  }
+}
+
+export { ProverRegistry };
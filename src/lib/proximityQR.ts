@@ -0,0 +1,231 @@
+// Compact, signed proximity QR payloads
+// The code is `zkp:<version>:<base64>`, where the base64 body packs the fixed-width
+// offer fields, the identity key's EIP-712 signature and finally the username.
+// Codes rotate every PROXIMITY_WINDOW_SECONDS: each is only valid for its time window
+// and carries an ephemeral id derived from the identity key and that window.
+// Scanners reject codes that are expired, signed by someone else or already seen,
+// so a screenshot of a QR code cannot be replayed.
+
+import { ethers } from 'ethers';
+import deploymentInfo from '@/contracts/deployment.json';
+import type { ZKIdentity } from './zkIdentity';
+
+export interface ProximityOffer {
+  userId: string;
+  username: string;
+  // HMAC of the time window under the identity key; doubles as the replay nonce
+  ephemeralId: string;
+  nullifier: string;
+  ephemeralKey: string;
+  // Address of the identity key that signed the code
+  identityKey: string;
+  // Unix seconds, the bounds of the code's time window
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SignedProximityOffer extends ProximityOffer {
+  signature: string;
+}
+
+const PROXIMITY_QR_PREFIX = 'zkp';
+const PROXIMITY_QR_VERSION = 2;
+// JSON codes from before the compact format
+const LEGACY_PROXIMITY_QR_TYPE = 'zk-proximity';
+
+export const PROXIMITY_WINDOW_SECONDS = 30;
+
+// Tolerated clock difference between the two devices
+const CLOCK_SKEW_SECONDS = 5;
+
+const MAX_USERNAME_LENGTH = 32;
+
+const SEEN_NONCES_KEY = 'zkpresence-seen-proximity-nonces';
+
+// userId, ephemeralId, nullifier (32 each), ephemeralKey, identityKey (20 each),
+// issuedAt, expiresAt (4 each), signature (65); the username takes the rest
+const FIXED_LENGTH = 32 * 3 + 20 * 2 + 4 * 2 + 65;
+
+const PROXIMITY_DOMAIN: ethers.TypedDataDomain = {
+  name: 'ZKPresence Proximity',
+  version: String(PROXIMITY_QR_VERSION),
+  chainId: deploymentInfo.chainId,
+  // Lowercased so ethers skips checksum validation of the configured address
+  verifyingContract: deploymentInfo.contractAddress.toLowerCase()
+};
+
+const PROXIMITY_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ProximityOffer: [
+    { name: 'userId', type: 'bytes32' },
+    { name: 'username', type: 'string' },
+    { name: 'ephemeralId', type: 'bytes32' },
+    { name: 'nullifier', type: 'bytes32' },
+    { name: 'ephemeralKey', type: 'address' },
+    { name: 'identityKey', type: 'address' },
+    { name: 'issuedAt', type: 'uint32' },
+    { name: 'expiresAt', type: 'uint32' }
+  ]
+};
+
+class ProximityQR {
+  static currentWindow(): number {
+    return Math.floor(Date.now() / 1000 / PROXIMITY_WINDOW_SECONDS);
+  }
+
+  // Unlinkable across windows without the identity key, stable within one
+  static deriveEphemeralId(identity: ZKIdentity, window: number): string {
+    return ethers.computeHmac(
+      'sha256',
+      identity.privateKey,
+      ethers.toUtf8Bytes(`zkpresence:proximity:${window}`)
+    );
+  }
+
+  // Sign an offer with the identity key, valid for the given time window
+  static async sign(
+    identity: ZKIdentity,
+    window: number,
+    offer: Omit<ProximityOffer, 'identityKey' | 'issuedAt' | 'expiresAt'>
+  ): Promise<SignedProximityOffer> {
+    const identityKey = new ethers.Wallet(identity.privateKey);
+    const issuedAt = window * PROXIMITY_WINDOW_SECONDS;
+    const unsigned: ProximityOffer = {
+      ...offer,
+      username: offer.username.slice(0, MAX_USERNAME_LENGTH),
+      identityKey: identityKey.address,
+      issuedAt,
+      expiresAt: issuedAt + PROXIMITY_WINDOW_SECONDS
+    };
+
+    const signature = await identityKey.signTypedData(PROXIMITY_DOMAIN, PROXIMITY_TYPES, unsigned);
+    return { ...unsigned, signature };
+  }
+
+  static encode(offer: SignedProximityOffer): string {
+    const body = ethers.concat([
+      offer.userId,
+      offer.ephemeralId,
+      offer.nullifier,
+      offer.ephemeralKey,
+      offer.identityKey,
+      ethers.toBeHex(offer.issuedAt, 4),
+      ethers.toBeHex(offer.expiresAt, 4),
+      offer.signature,
+      ethers.toUtf8Bytes(offer.username)
+    ]);
+    return `${PROXIMITY_QR_PREFIX}:${PROXIMITY_QR_VERSION}:${ethers.encodeBase64(body)}`;
+  }
+
+  // True for current and legacy proximity codes, so old ones get a clear error
+  static isProximityCode(data: unknown): boolean {
+    if (typeof data === 'string') {
+      return data.startsWith(`${PROXIMITY_QR_PREFIX}:`);
+    }
+    return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === LEGACY_PROXIMITY_QR_TYPE;
+  }
+
+  // Validate a scanned code and remember its nonce; throws with a user-facing reason
+  static verifyScanned(data: unknown): SignedProximityOffer {
+    const offer = this.decode(data);
+
+    if (
+      offer.issuedAt % PROXIMITY_WINDOW_SECONDS !== 0 ||
+      offer.expiresAt !== offer.issuedAt + PROXIMITY_WINDOW_SECONDS
+    ) {
+      throw new Error('Malformed proximity QR code');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now < offer.issuedAt - CLOCK_SKEW_SECONDS) {
+      throw new Error('This QR code is not valid yet, check your device clock');
+    }
+    if (now > offer.expiresAt + CLOCK_SKEW_SECONDS) {
+      throw new Error('This QR code has expired, ask them to show a new one');
+    }
+
+    if (!this.isSignedOffer(offer)) {
+      throw new Error('This QR code has an invalid signature');
+    }
+
+    const seen = this.loadSeenNonces(now);
+    if (seen[offer.ephemeralId]) {
+      throw new Error('This QR code has already been scanned');
+    }
+    seen[offer.ephemeralId] = offer.expiresAt + CLOCK_SKEW_SECONDS;
+    this.saveSeenNonces(seen);
+
+    return offer;
+  }
+
+  // The offer was signed by the identity key it names; no expiry or replay checks
+  static isSignedOffer(offer: SignedProximityOffer): boolean {
+    const { signature, ...unsigned } = offer;
+    try {
+      const signer = ethers.verifyTypedData(PROXIMITY_DOMAIN, PROXIMITY_TYPES, unsigned, signature);
+      return signer.toLowerCase() === offer.identityKey.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  private static decode(data: unknown): SignedProximityOffer {
+    if (typeof data !== 'string') {
+      throw new Error('Unsupported proximity QR code version, ask them to update the app');
+    }
+
+    const [prefix, version, body] = data.split(':');
+    if (prefix !== PROXIMITY_QR_PREFIX || Number(version) !== PROXIMITY_QR_VERSION) {
+      throw new Error('Unsupported proximity QR code version, ask them to update the app');
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = ethers.decodeBase64(body ?? '');
+    } catch {
+      throw new Error('Malformed proximity QR code');
+    }
+    if (bytes.length < FIXED_LENGTH || bytes.length > FIXED_LENGTH + MAX_USERNAME_LENGTH * 4) {
+      throw new Error('Malformed proximity QR code');
+    }
+
+    let offset = 0;
+    const take = (length: number) => ethers.hexlify(bytes.slice(offset, offset += length));
+
+    try {
+      return {
+        userId: take(32),
+        ephemeralId: take(32),
+        nullifier: take(32),
+        ephemeralKey: ethers.getAddress(take(20)),
+        identityKey: ethers.getAddress(take(20)),
+        issuedAt: Number(take(4)),
+        expiresAt: Number(take(4)),
+        signature: take(65),
+        username: ethers.toUtf8String(bytes.slice(offset))
+      };
+    } catch {
+      throw new Error('Malformed proximity QR code');
+    }
+  }
+
+  // Nonce -> unix seconds after which it can be forgotten
+  private static loadSeenNonces(now: number): Record<string, number> {
+    let stored: Record<string, number> = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(SEEN_NONCES_KEY) ?? '{}');
+    } catch {
+      // Start over from a corrupt entry
+    }
+    return Object.fromEntries(Object.entries(stored).filter(([, forgetAt]) => forgetAt >= now));
+  }
+
+  private static saveSeenNonces(seen: Record<string, number>) {
+    try {
+      localStorage.setItem(SEEN_NONCES_KEY, JSON.stringify(seen));
+    } catch (error) {
+      console.warn('Failed to persist seen proximity nonces:', error);
+    }
+  }
+}
+
+export { ProximityQR };
@@ -0,0 +1,67 @@
+// Pluggable key-value storage for wallet secrets
+// Web builds use localStorage; native Capacitor builds use the platform
+// keychain/keystore through a registered `SecureStorage` plugin when present.
+
+import { Capacitor, registerPlugin } from '@capacitor/core';
+
+export interface SecureStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+interface SecureStoragePlugin {
+  get(options: { key: string }): Promise<{ value: string | null }>;
+  set(options: { key: string; value: string }): Promise<void>;
+  remove(options: { key: string }): Promise<void>;
+}
+
+const SECURE_STORAGE_PLUGIN = 'SecureStorage';
+
+export const localStorageAdapter: SecureStorageAdapter = {
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => {
+    localStorage.setItem(key, value);
+  },
+  removeItem: async (key) => {
+    localStorage.removeItem(key);
+  }
+};
+
+export const createCapacitorSecureStorageAdapter = (): SecureStorageAdapter => {
+  const plugin = registerPlugin<SecureStoragePlugin>(SECURE_STORAGE_PLUGIN);
+
+  return {
+    getItem: async (key) => {
+      try {
+        const { value } = await plugin.get({ key });
+        return value ?? null;
+      } catch {
+        // Plugins reject when the key does not exist
+        return null;
+      }
+    },
+    setItem: async (key, value) => {
+      await plugin.set({ key, value });
+    },
+    removeItem: async (key) => {
+      await plugin.remove({ key });
+    }
+  };
+};
+
+let activeAdapter: SecureStorageAdapter | null = null;
+
+// Override the storage backend, e.g. with a different native plugin
+export const setSecureStorageAdapter = (adapter: SecureStorageAdapter): void => {
+  activeAdapter = adapter;
+};
+
+export const getSecureStorageAdapter = (): SecureStorageAdapter => {
+  if (!activeAdapter) {
+    activeAdapter = Capacitor.isNativePlatform() && Capacitor.isPluginAvailable(SECURE_STORAGE_PLUGIN)
+      ? createCapacitorSecureStorageAdapter()
+      : localStorageAdapter;
+  }
+  return activeAdapter;
+};
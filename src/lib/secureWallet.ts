@@ -1,7 +1,29 @@
 // Secure Wallet for ZK Credentials
-// Handles secure storage and management of ZK credentials
+// Handles secure storage and management of ZK credentials.
+// Wallet data is encrypted at rest in IndexedDB with a passphrase-derived AES-GCM key and
+// only kept in memory between unlock() and lock().
 
 import { MoProIntegration, type MoProCredential, type MoProIdentity } from './moproIntegration';
+import {
+  decryptWithKey,
+  deriveKey,
+  encryptJSON,
+  decryptJSON,
+  encryptWithKey,
+  generateSalt,
+  getEnvelopeSalt,
+  isEncryptedEnvelope,
+  PBKDF2_ITERATIONS,
+  type EncryptedEnvelope
+} from './encryption';
+import { CredentialStore } from './credentialStore';
+
+// Key material a write is encrypted under
+interface WalletSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
 
 interface SecureWalletData {
   identity: MoProIdentity | null;
@@ -15,22 +37,35 @@ interface SecureWalletData {
 
 class SecureWallet {
   private static readonly WALLET_KEY = 'zk-secure-wallet';
-  private static readonly ENCRYPTION_KEY = 'zk-wallet-encryption';
+  private static readonly WALLET_STORE = 'secureWallet';
+  // Bound to every envelope as AES-GCM additional data
+  private static readonly ENCRYPTION_CONTEXT = 'zk-wallet-encryption';
+  private static readonly EXPORT_CONTEXT = 'zk-wallet-export';
+  private static readonly MIN_PASSPHRASE_LENGTH = 8;
 
-  // Initialize secure wallet
-  static async initializeWallet(): Promise<SecureWalletData> {
+  // Unlocked session state, cleared by lock()
+  private static unlockedWallet: SecureWalletData | null = null;
+  private static sessionKey: CryptoKey | null = null;
+  private static sessionSalt: Uint8Array | null = null;
+  private static sessionIterations = PBKDF2_ITERATIONS;
+  private static pendingWrite: Promise<void> = Promise.resolve();
+
+  // Initialize secure wallet, creating it on first use
+  static async initializeWallet(passphrase: string): Promise<SecureWalletData> {
     try {
-      // Try to load existing wallet
-      const existingWallet = this.loadWallet();
-      if (existingWallet) {
+      // Try to unlock existing wallet
+      if (await this.hasWallet()) {
+        const existingWallet = await this.unlock(passphrase);
         existingWallet.metadata.lastAccessed = Date.now();
-        this.saveWallet(existingWallet);
+        await this.saveWallet(existingWallet);
         return existingWallet;
       }
 
+      this.assertPassphrase(passphrase);
+
       // Create new wallet with MoPro identity
       let identity: MoProIdentity | null = null;
-      
+
       if (MoProIntegration.isMoProAvailable()) {
         identity = await MoProIntegration.generateIdentity();
       }
@@ -41,11 +76,12 @@ class SecureWallet {
         metadata: {
           created: Date.now(),
           lastAccessed: Date.now(),
-          version: '1.0.0'
+          version: '2.0.0'
         }
       };
 
-      this.saveWallet(walletData);
+      await this.startSession(passphrase, generateSalt());
+      await this.saveWallet(walletData);
       return walletData;
     } catch (error) {
       console.error('Failed to initialize secure wallet:', error);
@@ -53,16 +89,80 @@ class SecureWallet {
     }
   }
 
-  // Add credential to wallet
-  static addCredential(credential: MoProCredential): void {
+  // Whether a wallet (encrypted or legacy plaintext) exists on this device
+  static async hasWallet(): Promise<boolean> {
+    return (await CredentialStore.get(this.WALLET_STORE, this.WALLET_KEY)) !== undefined;
+  }
+
+  static isUnlocked(): boolean {
+    return this.unlockedWallet !== null && this.sessionKey !== null;
+  }
+
+  // Decrypt the wallet into memory
+  static async unlock(passphrase: string): Promise<SecureWalletData> {
+    const parsed = await CredentialStore.get<EncryptedEnvelope | SecureWalletData>(this.WALLET_STORE, this.WALLET_KEY);
+    if (!parsed) throw new Error('Wallet not initialized');
+
+    // Wallets written before encryption existed are migrated on first unlock
+    if (!isEncryptedEnvelope(parsed)) {
+      this.assertPassphrase(passphrase);
+      await this.startSession(passphrase, generateSalt());
+      this.unlockedWallet = parsed as SecureWalletData;
+      await this.persist(this.unlockedWallet);
+      console.log('Migrated plaintext wallet to encrypted storage');
+      return this.unlockedWallet;
+    }
+
+    const key = await deriveKey(passphrase, getEnvelopeSalt(parsed), parsed.iterations);
+    const wallet = await decryptWithKey<SecureWalletData>(key, parsed, this.ENCRYPTION_CONTEXT);
+
+    this.sessionKey = key;
+    this.sessionSalt = getEnvelopeSalt(parsed);
+    this.sessionIterations = parsed.iterations;
+    this.unlockedWallet = wallet;
+    return wallet;
+  }
+
+  // Open the wallet alongside the recovery-phrase wallet; one sealed under another passphrase stays locked
+  static async tryUnlock(passphrase: string): Promise<boolean> {
+    try {
+      await this.initializeWallet(passphrase);
+      return true;
+    } catch (error) {
+      console.warn('Secure wallet stays locked:', error);
+      return false;
+    }
+  }
+
+  // Re-encrypt the wallet under a new passphrase
+  static async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    this.assertPassphrase(newPassphrase);
+    if (!(await this.hasWallet())) return;
+
+    const wallet = this.unlockedWallet ?? await this.unlock(currentPassphrase);
+    await this.pendingWrite;
+    await this.startSession(newPassphrase, generateSalt());
+    this.unlockedWallet = wallet;
+    await this.persist(wallet);
+  }
+
+  // Drop decrypted data and key material from memory
+  static lock(): void {
+    this.unlockedWallet = null;
+    this.sessionKey = null;
+    this.sessionSalt = null;
+  }
+
+  // Add credential to wallet; resolves once it is encrypted and stored
+  static async addCredential(credential: MoProCredential): Promise<void> {
     try {
       const wallet = this.loadWallet();
-      if (!wallet) throw new Error('Wallet not initialized');
+      if (!wallet) throw new Error('Wallet is locked');
 
       wallet.credentials.push(credential);
       wallet.metadata.lastAccessed = Date.now();
-      
-      this.saveWallet(wallet);
+
+      await this.saveWallet(wallet);
       console.log('Credential added to secure wallet');
     } catch (error) {
       console.error('Failed to add credential to wallet:', error);
@@ -103,33 +203,40 @@ class SecureWallet {
     }
   }
 
-  // Export wallet (encrypted)
-  static exportWallet(): string {
+  // Export wallet as an encrypted blob protected by the given passphrase
+  static async exportWallet(passphrase: string): Promise<string> {
     try {
       const wallet = this.loadWallet();
-      if (!wallet) throw new Error('No wallet to export');
+      if (!wallet) throw new Error('Wallet is locked');
 
-      // In production, this should be properly encrypted
-      return JSON.stringify(wallet, null, 2);
+      this.assertPassphrase(passphrase);
+      const envelope = await encryptJSON(wallet, passphrase, this.EXPORT_CONTEXT);
+      return JSON.stringify(envelope, null, 2);
     } catch (error) {
       console.error('Failed to export wallet:', error);
       throw error;
     }
   }
 
-  // Import wallet
-  static importWallet(walletData: string): boolean {
+  // Import an exported wallet; it is re-encrypted under the same passphrase
+  static async importWallet(walletData: string, passphrase: string): Promise<boolean> {
     try {
-      const parsed = JSON.parse(walletData) as SecureWalletData;
-      
+      const envelope = JSON.parse(walletData);
+      if (!isEncryptedEnvelope(envelope)) {
+        throw new Error('Invalid wallet format');
+      }
+
+      const parsed = await decryptJSON<SecureWalletData>(envelope, passphrase, this.EXPORT_CONTEXT);
+
       // Validate wallet structure
       if (!parsed.metadata || !Array.isArray(parsed.credentials)) {
         throw new Error('Invalid wallet format');
       }
 
       parsed.metadata.lastAccessed = Date.now();
-      this.saveWallet(parsed);
-      
+      await this.startSession(passphrase, generateSalt());
+      await this.saveWallet(parsed);
+
       console.log('Wallet imported successfully');
       return true;
     } catch (error) {
@@ -139,9 +246,10 @@ class SecureWallet {
   }
 
   // Clear wallet data
-  static clearWallet(): void {
+  static async clearWallet(): Promise<void> {
     try {
-      localStorage.removeItem(this.WALLET_KEY);
+      this.lock();
+      await CredentialStore.delete(this.WALLET_STORE, this.WALLET_KEY);
       console.log('Wallet cleared');
     } catch (error) {
       console.error('Failed to clear wallet:', error);
@@ -173,28 +281,56 @@ class SecureWallet {
   }
 
   // Private methods for wallet management
-  private static loadWallet(): SecureWalletData | null {
-    try {
-      const data = localStorage.getItem(this.WALLET_KEY);
-      if (!data) return null;
+  private static async startSession(passphrase: string, salt: Uint8Array): Promise<void> {
+    this.sessionKey = await deriveKey(passphrase, salt);
+    this.sessionSalt = salt;
+    this.sessionIterations = PBKDF2_ITERATIONS;
+  }
 
-      // In production, decrypt the data here
-      return JSON.parse(data);
-    } catch (error) {
-      console.error('Failed to load wallet:', error);
-      return null;
+  private static assertPassphrase(passphrase: string): void {
+    if (!passphrase || passphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${this.MIN_PASSPHRASE_LENGTH} characters`);
     }
   }
 
-  private static saveWallet(wallet: SecureWalletData): void {
-    try {
-      // In production, encrypt the data here
-      localStorage.setItem(this.WALLET_KEY, JSON.stringify(wallet));
-    } catch (error) {
+  // Returns the decrypted wallet, or null while locked
+  private static loadWallet(): SecureWalletData | null {
+    return this.unlockedWallet;
+  }
+
+  // Rejects if the write fails; a lock() while it is queued does not drop it
+  private static saveWallet(wallet: SecureWalletData): Promise<void> {
+    const session = this.currentSession();
+    this.unlockedWallet = wallet;
+
+    // Writes are serialized so a slow encryption never overwrites a newer one
+    const write = this.pendingWrite.then(() => this.persist(wallet, session));
+    this.pendingWrite = write.catch(error => {
       console.error('Failed to save wallet:', error);
-      throw error;
+    });
+    return write;
+  }
+
+  private static currentSession(): WalletSession {
+    if (!this.sessionKey || !this.sessionSalt) {
+      throw new Error('Wallet is locked');
     }
+    return { key: this.sessionKey, salt: this.sessionSalt, iterations: this.sessionIterations };
+  }
+
+  private static async persist(
+    wallet: SecureWalletData,
+    session: WalletSession = this.currentSession()
+  ): Promise<void> {
+    const envelope: EncryptedEnvelope = await encryptWithKey(
+      session.key,
+      session.salt,
+      wallet,
+      this.ENCRYPTION_CONTEXT,
+      session.iterations
+    );
+    await CredentialStore.put(this.WALLET_STORE, envelope, this.WALLET_KEY);
   }
 }
 
-export { SecureWallet, type SecureWalletData };
\ No newline at end of file
+export { SecureWallet, type SecureWalletData };
@@ -0,0 +1,98 @@
+// In-browser Groth16 prover backend for the bundled circuits (snarkjs + wasm/zkey)
+// Proving and verification run in a Web Worker so the UI stays responsive; the
+// worker is started on first use and owns the circuit artifacts.
+
+import { isCircuitName } from '@/circuits/signals';
+import type { CircuitInput, CircuitName, ProofResult } from './prover';
+
+export type SnarkjsWorkerRequest =
+  | { id: number; op: 'prove'; circuit: CircuitName; inputs: Record<string, string | number> }
+  | { id: number; op: 'verify'; circuit: CircuitName; proof: string; publicSignals: string[]; verificationKey: string };
+
+export type SnarkjsWorkerResponse =
+  | { id: number; ok: true; result: Omit<ProofResult, 'prover'> | boolean }
+  | { id: number; ok: false; error: string };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+interface PendingRequest {
+  resolve: (result: Omit<ProofResult, 'prover'> | boolean) => void;
+  reject: (error: Error) => void;
+}
+
+class SnarkjsProver {
+  static readonly id = 'snarkjs';
+
+  private static worker: Worker | null = null;
+  private static nextRequestId = 0;
+  private static pending = new Map<number, PendingRequest>();
+
+  static isAvailable(): boolean {
+    return typeof WebAssembly !== 'undefined' && typeof Worker !== 'undefined';
+  }
+
+  // The worker bundles artifacts for every circuit in the repo
+  static supports(circuit: CircuitName): boolean {
+    return isCircuitName(circuit);
+  }
+
+  static async prove<C extends CircuitName>(circuit: C, inputs: CircuitInput<C>): Promise<Omit<ProofResult, 'prover'>> {
+    return await this.request({ op: 'prove', circuit, inputs }) as Omit<ProofResult, 'prover'>;
+  }
+
+  // Checks the proof against the bundled key for the circuit
+  static async verify(
+    circuit: CircuitName,
+    proof: ProofResult['proof'],
+    publicSignals: string[],
+    verificationKey: string
+  ): Promise<boolean> {
+    if (typeof proof !== 'string') return false;
+    return await this.request({ op: 'verify', circuit, proof, publicSignals, verificationKey }) as boolean;
+  }
+
+  private static request(message: DistributiveOmit<SnarkjsWorkerRequest, 'id'>) {
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+
+    return new Promise<Omit<ProofResult, 'prover'> | boolean>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ ...message, id } as SnarkjsWorkerRequest);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('../workers/snarkjsProver.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<SnarkjsWorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if (response.ok === true) {
+        request.resolve(response.result);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+
+    // A crashed worker fails everything in flight; the next request starts a new one
+    worker.onerror = (event) => {
+      console.error('snarkjs prover worker failed:', event.message);
+      for (const request of this.pending.values()) {
+        request.reject(new Error('Prover worker crashed'));
+      }
+      this.pending.clear();
+      worker.terminate();
+      this.worker = null;
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+export { SnarkjsProver };
@@ -1,5 +1,7 @@
-import { generateMnemonic, mnemonicToSeedSync } from 'bip39';
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from 'bip39';
 import { HDNode } from '@ethersproject/hdnode';
+import { ethers } from 'ethers';
+import { getSecureStorageAdapter } from './secureStorage';
 
 export interface WalletKeypair {
   address: string;
@@ -7,17 +9,51 @@ export interface WalletKeypair {
   mnemonic: string;
 }
 
+// What is persisted: the public address plus a Web3 Secret Storage v3 keystore
+interface StoredWalletRecord {
+  address: string;
+  keystore?: string;
+  timestamp: number;
+  // Set once the user has confirmed their recovery phrase
+  backedUpAt?: number;
+  // Present only in wallets written before keystore encryption
+  privateKey?: string;
+  mnemonic?: string;
+}
+
+const WALLET_STORAGE_KEY = 'zkpresence-wallet';
+const MIN_PASSWORD_LENGTH = 8;
+
+// Decrypted wallet, held in memory between unlockWallet() and lockWallet()
+let unlockedWallet: WalletKeypair | null = null;
+
 export const generateWallet = (): WalletKeypair => {
   // Generate a 12-word mnemonic phrase
-  const mnemonic = generateMnemonic();
-  
+  return walletFromMnemonic(generateMnemonic());
+};
+
+// Rebuild a wallet from a user-entered recovery phrase
+export const restoreWalletFromMnemonic = (phrase: string): WalletKeypair => {
+  const mnemonic = normalizeMnemonic(phrase);
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error('Invalid recovery phrase');
+  }
+
+  return walletFromMnemonic(mnemonic);
+};
+
+export const normalizeMnemonic = (phrase: string): string => {
+  return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+};
+
+const walletFromMnemonic = (mnemonic: string): WalletKeypair => {
   // Convert mnemonic to seed
   const seed = mnemonicToSeedSync(mnemonic);
-  
+
   // Create HD wallet from seed (using standard Ethereum derivation path)
   const hdNode = HDNode.fromSeed(seed);
   const derivedNode = hdNode.derivePath("m/44'/60'/0'/0/0");
-  
+
   return {
     address: derivedNode.address,
     privateKey: derivedNode.privateKey,
@@ -25,37 +61,130 @@ export const generateWallet = (): WalletKeypair => {
   };
 };
 
-export const storeWalletSecurely = (wallet: WalletKeypair): void => {
-  // Store encrypted in localStorage for web
-  // In a native app, this would use secure keychain/keystore
-  const walletData = {
+export const storeWalletSecurely = async (
+  wallet: WalletKeypair,
+  password: string,
+  options: { backedUp?: boolean } = {}
+): Promise<void> => {
+  assertPassword(password);
+
+  // Encrypt the private key and mnemonic into a scrypt/AES-128-CTR keystore
+  const keystore = await ethers.Wallet.fromPhrase(wallet.mnemonic).encrypt(password);
+
+  // Keep the backup status when re-encrypting the same wallet
+  const existing = await readWalletRecord();
+  const backedUpAt = options.backedUp
+    ? Date.now()
+    : existing?.address === wallet.address ? existing.backedUpAt : undefined;
+
+  const record: StoredWalletRecord = {
     address: wallet.address,
-    // In production, encrypt the private key and mnemonic
-    privateKey: wallet.privateKey,
-    mnemonic: wallet.mnemonic,
-    timestamp: Date.now()
+    keystore,
+    timestamp: Date.now(),
+    backedUpAt
   };
-  
-  localStorage.setItem('zkpresence-wallet', JSON.stringify(walletData));
+
+  await getSecureStorageAdapter().setItem(WALLET_STORAGE_KEY, JSON.stringify(record));
+  unlockedWallet = wallet;
+};
+
+// Public address of the stored wallet; does not require unlocking
+export const getStoredWalletAddress = async (): Promise<string | null> => {
+  const record = await readWalletRecord();
+  return record?.address ?? null;
 };
 
-export const getStoredWallet = (): WalletKeypair | null => {
+export const hasStoredWallet = async (): Promise<boolean> => {
+  return (await readWalletRecord()) !== null;
+};
+
+// Wallets saved in cleartext before the keystore existed
+export const isLegacyWallet = async (): Promise<boolean> => {
+  const record = await readWalletRecord();
+  return !!record && !record.keystore && !!record.mnemonic;
+};
+
+// Decrypt the keystore. Legacy cleartext wallets are sealed with this password.
+export const unlockWallet = async (password: string): Promise<WalletKeypair> => {
+  const record = await readWalletRecord();
+  if (!record) throw new Error('No wallet found on this device');
+
+  if (!record.keystore) {
+    if (!record.mnemonic || !record.privateKey) throw new Error('Stored wallet is corrupted');
+
+    const legacyWallet: WalletKeypair = {
+      address: record.address,
+      privateKey: record.privateKey,
+      mnemonic: record.mnemonic
+    };
+    await storeWalletSecurely(legacyWallet, password);
+    return legacyWallet;
+  }
+
+  let decrypted: ethers.Wallet | ethers.HDNodeWallet;
   try {
-    const stored = localStorage.getItem('zkpresence-wallet');
+    decrypted = await ethers.Wallet.fromEncryptedJson(record.keystore, password);
+  } catch {
+    throw new Error('Incorrect wallet password');
+  }
+
+  const mnemonic = 'mnemonic' in decrypted ? decrypted.mnemonic?.phrase : undefined;
+  if (!mnemonic) throw new Error('Keystore does not contain a recovery phrase');
+
+  unlockedWallet = {
+    address: decrypted.address,
+    privateKey: decrypted.privateKey,
+    mnemonic
+  };
+  return unlockedWallet;
+};
+
+export const isWalletBackedUp = async (): Promise<boolean> => {
+  const record = await readWalletRecord();
+  return !!record?.backedUpAt;
+};
+
+export const markWalletBackedUp = async (): Promise<void> => {
+  const record = await readWalletRecord();
+  if (!record) throw new Error('No wallet found on this device');
+
+  record.backedUpAt = Date.now();
+  await getSecureStorageAdapter().setItem(WALLET_STORAGE_KEY, JSON.stringify(record));
+};
+
+export const lockWallet = (): void => {
+  unlockedWallet = null;
+};
+
+// The decrypted wallet, or null while locked
+export const getUnlockedWallet = (): WalletKeypair | null => {
+  return unlockedWallet;
+};
+
+export const changeWalletPassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const wallet = await unlockWallet(currentPassword);
+  await storeWalletSecurely(wallet, newPassword);
+};
+
+export const clearStoredWallet = async (): Promise<void> => {
+  lockWallet();
+  await getSecureStorageAdapter().removeItem(WALLET_STORAGE_KEY);
+};
+
+const readWalletRecord = async (): Promise<StoredWalletRecord | null> => {
+  try {
+    const stored = await getSecureStorageAdapter().getItem(WALLET_STORAGE_KEY);
     if (!stored) return null;
-    
-    const walletData = JSON.parse(stored);
-    return {
-      address: walletData.address,
-      privateKey: walletData.privateKey,
-      mnemonic: walletData.mnemonic
-    };
+
+    return JSON.parse(stored);
   } catch (error) {
     console.error('Error retrieving wallet:', error);
     return null;
   }
 };
 
-export const hasStoredWallet = (): boolean => {
-  return getStoredWallet() !== null;
-};
\ No newline at end of file
+const assertPassword = (password: string): void => {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+};
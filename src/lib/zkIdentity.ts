@@ -1,7 +1,17 @@
 // ZK Identity Manager - Integrated with MoPro SDK for real ZK proof generation
 
-import { MoProIntegration, type MoProCredential } from './moproIntegration';
+import { ethers } from 'ethers';
+import { mnemonicToSeedSync, validateMnemonic } from 'bip39';
+import { HDNode } from '@ethersproject/hdnode';
+import { poseidon1, poseidon2 } from 'poseidon-lite';
+import { MoProIntegration } from './moproIntegration';
 import { SecureWallet } from './secureWallet';
+import { CredentialStore, IDENTITY_KEY } from './credentialStore';
+import { getUnlockedWallet } from './wallet';
+import { CheckInManager, type SignedCheckIn } from './checkIn';
+import { toNamedSignals } from '@/circuits/signals';
+import type { CoPresenceTranscript } from './coPresence';
+import type { SignedProximityOffer } from './proximityQR';
 
 interface ZKCredential {
   id: string;
@@ -12,12 +22,16 @@ interface ZKCredential {
   publicSignals: string[];
   verificationKey: string;
   blockchainStatus?: "Valid" | "Submitted" | "Confirmed";
+  // Organizer-signed challenge scanned at the venue
+  checkIn?: SignedCheckIn;
   metadata: {
     location?: string;
     duration?: number;
     attendeeCount?: number;
     image?: string;
     type?: string;
+    // Prover backend that generated the proof
+    prover?: string;
   };
 }
 
@@ -28,10 +42,11 @@ interface ZKCoPresenceProof {
   usernameA: string;
   usernameB: string;
   ephemeralNonce: string;
-  proofString: string;
   timestamp: number;
   blockchainStatus?: "Valid" | "Submitted" | "Confirmed";
   location?: string;
+  // Which side of the handshake this device was
+  role: 'initiator' | 'responder';
   credentialA: {
     commitment: string;
     nullifier: string;
@@ -40,6 +55,15 @@ interface ZKCoPresenceProof {
     commitment: string;
     nullifier: string;
   };
+  // Signed transcript; see CoPresenceManager.verifyProof
+  transcript: CoPresenceTranscript;
+  // A's identity-signed QR offer, which vouches for A's ephemeral key
+  offerA: SignedProximityOffer;
+  signatureA: string;
+  signatureB: string;
+  // B's identity key over the transcript
+  identitySignatureB: string;
+  binding: string;
 }
 
 // Import group proof types
@@ -50,109 +74,142 @@ interface ZKIdentity {
   nullifierHash: string;
   privateKey: string;
   publicKey: string;
+  // Semaphore-style identity secrets, derived from the wallet mnemonic
+  trapdoor: string;
+  nullifier: string;
+  walletAddress: string;
   credentials: ZKCredential[];
 }
 
+// What is persisted: only the public half of the identity. Secrets are re-derived from the
+// unlocked wallet and kept in memory.
+type StoredIdentity = Pick<ZKIdentity, 'identityCommitment' | 'nullifierHash' | 'walletAddress'>;
+
+// BN254 scalar field used by Poseidon and our circuits
+const SNARK_SCALAR_FIELD = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
 class ZKIdentityManager {
-  private static readonly STORAGE_KEY = 'zk-identity';
-  private static readonly CREDENTIALS_KEY = 'zk-credentials';
-  private static readonly COPRESENCE_PROOFS_KEY = 'zk-copresence-proofs';
+  private static readonly IDENTITY_DERIVATION_PATH = "m/44'/60'/1'/0/0";
+
+  // Identity derived from the unlocked wallet; only used while that wallet stays unlocked
+  private static sessionIdentity: ZKIdentity | null = null;
+
+  // Derive a Semaphore-style identity from a BIP39 mnemonic.
+  // commitment = H(H(trapdoor, nullifier)), so the same mnemonic always restores the same identity.
+  static deriveIdentity(mnemonic: string): ZKIdentity {
+    if (!validateMnemonic(mnemonic)) {
+      throw new Error('Invalid recovery phrase');
+    }
+
+    const seed = mnemonicToSeedSync(mnemonic);
+    const hdNode = HDNode.fromSeed(seed);
+    const walletAddress = hdNode.derivePath("m/44'/60'/0'/0/0").address;
+    const identityNode = hdNode.derivePath(this.IDENTITY_DERIVATION_PATH);
+
+    const trapdoor = this.deriveFieldElement(identityNode.privateKey, 'trapdoor');
+    const nullifier = this.deriveFieldElement(identityNode.privateKey, 'nullifier');
+    const secret = poseidon2([trapdoor, nullifier]);
 
-  // Generate ZK identity using MoPro or fallback to mock
+    return {
+      identityCommitment: this.toHex(poseidon1([secret])),
+      nullifierHash: this.toHex(poseidon1([nullifier])),
+      privateKey: identityNode.privateKey,
+      publicKey: identityNode.publicKey,
+      trapdoor: this.toHex(trapdoor),
+      nullifier: this.toHex(nullifier),
+      walletAddress,
+      credentials: []
+    };
+  }
+
+  // Generate ZK identity from the unlocked wallet's mnemonic
   static async generateIdentity(): Promise<ZKIdentity> {
     try {
-      // Try to use MoPro first
-      if (MoProIntegration.isMoProAvailable()) {
-        const moProIdentity = await MoProIntegration.generateIdentity();
-        if (moProIdentity) {
-          return {
-            identityCommitment: moProIdentity.commitment,
-            nullifierHash: moProIdentity.nullifier,
-            privateKey: moProIdentity.privateKey,
-            publicKey: moProIdentity.publicKey,
-            credentials: []
-          };
-        }
+      const wallet = getUnlockedWallet();
+      if (!wallet) {
+        throw new Error('Unlock your wallet to restore your ZK identity');
       }
 
-      // Fallback to mock implementation
-      console.warn('MoPro not available, using mock identity generation');
-      const privateKey = this.generateRandomHex(32);
-      const publicKey = this.generateRandomHex(32);
-      const identityCommitment = this.generateRandomHex(32);
-      const nullifierHash = this.generateRandomHex(32);
-
-      return {
-        identityCommitment,
-        nullifierHash,
-        privateKey,
-        publicKey,
-        credentials: []
-      };
+      return this.deriveIdentity(wallet.mnemonic);
     } catch (error) {
       console.error('Failed to generate identity:', error);
       throw error;
     }
   }
 
-  // Generate ZK proof for event attendance using MoPro
+  // Restore identity from a recovery phrase and make it the active identity
+  static async restoreIdentity(mnemonic: string): Promise<ZKIdentity> {
+    const identity = this.deriveIdentity(mnemonic);
+    this.sessionIdentity = identity;
+    await this.storePublicIdentity(identity);
+    return identity;
+  }
+
+  // Generate ZK proof for event attendance with the best available prover
   static async generateEventCredential(
     eventId: string, 
     eventName: string, 
-    metadata: ZKCredential['metadata'] = {}
+    metadata: ZKCredential['metadata'] = {},
+    checkIn?: SignedCheckIn
   ): Promise<ZKCredential> {
     try {
-      // Try to use MoPro first
-      if (MoProIntegration.isMoProAvailable()) {
-        const moProCredential = await MoProIntegration.generateEventCredential(
-          eventId, 
-          eventName, 
-          metadata.location
-        );
-
-        if (moProCredential) {
-          const credential: ZKCredential = {
-            id: moProCredential.id,
-            eventId,
-            eventName,
-            timestamp: Date.now(),
-            proof: moProCredential.proof,
-            publicSignals: moProCredential.publicSignals,
-            verificationKey: moProCredential.verificationKey,
-            metadata: { ...metadata, type: 'event_attendance' }
-          };
-
-          // Store in secure wallet
-          SecureWallet.addCredential(moProCredential);
-          this.storeCredential(credential);
-          return credential;
-        }
+      if (checkIn && checkIn.challenge.eventId !== eventId) {
+        throw new Error('Check-in code is for a different event');
       }
 
-      // Fallback to mock implementation
-      console.warn('MoPro not available, using mock credential generation');
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const identity = await this.getOrCreateIdentity();
+      const externalNullifier = this.computeExternalNullifier(eventId);
+      const nullifier = this.computeEventNullifier(identity, eventId);
+      const checkInDigest = checkIn ? CheckInManager.challengeDigest(checkIn) : undefined;
 
-      const proof = this.generateRandomHex(256);
-      const publicSignals = [
-        this.generateRandomHex(32), // nullifier hash
-        this.generateRandomHex(32), // event hash
-        this.generateRandomHex(32)  // timestamp hash
-      ];
-      const verificationKey = this.generateRandomHex(128);
+      // One credential per identity per event
+      if (await this.isNullifierUsed(nullifier)) {
+        throw new Error('Attendance already claimed for this event');
+      }
+
+      const moProCredential = await MoProIntegration.generateEventCredential(
+        eventId, 
+        eventName, 
+        metadata.location,
+        {
+          identityTrapdoor: identity.trapdoor,
+          identityNullifier: identity.nullifier,
+          identityCommitment: identity.identityCommitment,
+          externalNullifier,
+          checkInDigest
+        }
+      );
+      if (!moProCredential) {
+        throw new Error('Failed to generate attendance proof');
+      }
+
+      const signals = toNamedSignals('event_attendance', moProCredential.publicSignals);
+      if (
+        !this.isSameSignal(signals.nullifier, nullifier) ||
+        !this.isSameSignal(signals.externalNullifier, externalNullifier) ||
+        !this.isSameSignal(signals.identityCommitment, identity.identityCommitment) ||
+        !this.isSameSignal(signals.checkInDigest, checkInDigest ?? '0')
+      ) {
+        throw new Error('Prover returned unexpected public signals');
+      }
 
       const credential: ZKCredential = {
-        id: this.generateRandomHex(16),
+        id: moProCredential.id,
         eventId,
         eventName,
         timestamp: Date.now(),
-        proof,
-        publicSignals,
-        verificationKey,
-        metadata: { ...metadata, type: 'mock' }
+        proof: moProCredential.proof,
+        publicSignals: moProCredential.publicSignals,
+        verificationKey: moProCredential.verificationKey,
+        checkIn,
+        metadata: { ...metadata, type: 'event_attendance', prover: moProCredential.metadata.prover }
       };
 
-      this.storeCredential(credential);
+      // Store in secure wallet when the user has unlocked it
+      if (SecureWallet.isUnlocked()) {
+        await SecureWallet.addCredential(moProCredential);
+      }
+      await this.storeCredential(credential);
       return credential;
     } catch (error) {
       console.error('Failed to generate event credential:', error);
@@ -160,92 +217,65 @@ class ZKIdentityManager {
     }
   }
 
-  // Generate ZK proof for co-presence
-  static async generateCoPresenceProof(
-    userIdA: string,
-    userIdB: string,
-    usernameA: string,
-    usernameB: string,
-    ephemeralNonce: string,
-    location?: string
-  ): Promise<ZKCoPresenceProof> {
-    // Simulate proof generation delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // Generate mock credentials for both users
-    const credentialA = {
-      commitment: this.generateRandomHex(32),
-      nullifier: this.generateRandomHex(32)
-    };
-    
-    const credentialB = {
-      commitment: this.generateRandomHex(32),
-      nullifier: this.generateRandomHex(32)
-    };
+  // External nullifier for an event: the eventId hashed into the scalar field
+  static computeExternalNullifier(eventId: string): string {
+    return this.toHex(BigInt(ethers.keccak256(ethers.toUtf8Bytes(eventId))) % SNARK_SCALAR_FIELD);
+  }
 
-    // Generate mock proof string using both user IDs and nonce
-    const proofString = this.generateRandomHex(128);
-    const eventId = `copresence-${Date.now()}-${this.generateRandomHex(8)}`;
-
-    const proof: ZKCoPresenceProof = {
-      eventId,
-      userIdA,
-      userIdB,
-      usernameA,
-      usernameB,
-      ephemeralNonce,
-      proofString,
-      timestamp: Date.now(),
-      location,
-      credentialA,
-      credentialB
-    };
+  // Event-scoped nullifier: H(identity nullifier, eventId)
+  static computeEventNullifier(identity: ZKIdentity, eventId: string): string {
+    const externalNullifier = BigInt(this.computeExternalNullifier(eventId));
+    return this.toHex(poseidon2([BigInt(identity.nullifier), externalNullifier]));
+  }
 
-    // Store proof locally
-    this.storeCoPresenceProof(proof);
+  // Check whether a credential has already been issued for this nullifier
+  static async isNullifierUsed(nullifier: string): Promise<boolean> {
+    const credentials = await this.getStoredCredentials();
+    return credentials.some(c => this.isSameSignal(c.publicSignals?.[0], nullifier));
+  }
 
-    return proof;
+  // Check whether the current identity already claimed an event
+  static async hasClaimedEvent(eventId: string): Promise<boolean> {
+    const identity = await this.getOrCreateIdentity();
+    return this.isNullifierUsed(this.computeEventNullifier(identity, eventId));
   }
 
-  // Verify a ZK credential using MoPro
+  // Verify a ZK credential with the prover backend that made it
   static async verifyCredential(credential: ZKCredential): Promise<boolean> {
     try {
-      // Try to use MoPro for verification
-      if (MoProIntegration.isMoProAvailable() && credential.metadata?.type !== 'mock') {
-        const moProCredential: MoProCredential = {
-          id: credential.id,
-          proof: credential.proof as Uint8Array,
-          publicSignals: credential.publicSignals,
-          verificationKey: credential.verificationKey,
-          metadata: credential.metadata
-        };
-
-        return await MoProIntegration.verifyCredential(moProCredential);
+      // Credentials from the old mock prover carry no real proof
+      if (credential.metadata?.type === 'mock') {
+        return false;
       }
 
-      // Fallback to mock verification
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return credential.proof.length > 0 && credential.publicSignals.length === 3;
+      return await MoProIntegration.verifyCredential({
+        id: credential.id,
+        proof: credential.proof,
+        publicSignals: credential.publicSignals,
+        verificationKey: credential.verificationKey,
+        metadata: { ...credential.metadata, circuit: 'event_attendance' }
+      });
     } catch (error) {
       console.error('Failed to verify credential:', error);
       return false;
     }
   }
 
-  // Get or create ZK identity (async for MoPro integration)
+  // Get or create ZK identity; requires the wallet to be unlocked
   static async getOrCreateIdentity(): Promise<ZKIdentity> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (stored) {
-        try {
-          return JSON.parse(stored);
-        } catch (e) {
-          console.warn('Failed to parse stored identity, creating new one');
-        }
+      await this.getStoredIdentity();
+
+      const wallet = getUnlockedWallet();
+      if (!wallet) {
+        this.sessionIdentity = null;
+      } else if (this.sessionIdentity?.walletAddress === wallet.address) {
+        return this.sessionIdentity;
       }
 
       const identity = await this.generateIdentity();
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(identity));
+      this.sessionIdentity = identity;
+      await this.storePublicIdentity(identity);
       return identity;
     } catch (error) {
       console.error('Failed to get or create identity:', error);
@@ -253,58 +283,77 @@ class ZKIdentityManager {
     }
   }
 
-  // Store a credential
-  static storeCredential(credential: ZKCredential): void {
-    const credentials = this.getStoredCredentials();
-    credentials.push(credential);
-    localStorage.setItem(this.CREDENTIALS_KEY, JSON.stringify(credentials));
+  // Public commitment and nullifier hash; readable while the wallet is locked
+  static async getStoredIdentity(): Promise<StoredIdentity | null> {
+    const stored = await CredentialStore.get<StoredIdentity & Partial<ZKIdentity>>('identity', IDENTITY_KEY);
+    if (!stored) return null;
+
+    // Older versions persisted the identity secrets in plaintext
+    if (stored.privateKey || stored.trapdoor || stored.nullifier) {
+      const { identityCommitment, nullifierHash, walletAddress } = stored;
+      await CredentialStore.put('identity', { identityCommitment, nullifierHash, walletAddress }, IDENTITY_KEY);
+      return { identityCommitment, nullifierHash, walletAddress };
+    }
+    return stored;
   }
 
-  // Get all stored credentials
-  static getStoredCredentials(): ZKCredential[] {
-    const stored = localStorage.getItem(this.CREDENTIALS_KEY);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch (e) {
-        console.warn('Failed to parse stored credentials');
-      }
+  // Store a credential; the duplicate-nullifier check and the write are one transaction
+  static async storeCredential(credential: ZKCredential): Promise<void> {
+    const nullifier = credential.publicSignals?.[0];
+    const stored = await CredentialStore.putIfAbsent<ZKCredential>(
+      'credentials',
+      credential,
+      existing => !!nullifier && this.isSameSignal(existing.publicSignals?.[0], nullifier)
+    );
+    if (!stored) {
+      throw new Error('Attendance already claimed for this event');
     }
-    return [];
+  }
+
+  // Get all stored credentials, oldest first
+  static async getStoredCredentials(): Promise<ZKCredential[]> {
+    try {
+      return await CredentialStore.getAll<ZKCredential>('credentials', 'timestamp');
+    } catch (error) {
+      console.warn('Failed to load stored credentials:', error);
+      return [];
+    }
+  }
+
+  // Get credentials issued for a single event
+  static async getCredentialsForEvent(eventId: string): Promise<ZKCredential[]> {
+    return CredentialStore.getAll<ZKCredential>('credentials', 'eventId', eventId);
   }
 
   // Store a co-presence proof
-  static storeCoPresenceProof(proof: ZKCoPresenceProof): void {
-    const proofs = this.getStoredCoPresenceProofs();
-    proofs.push(proof);
-    localStorage.setItem(this.COPRESENCE_PROOFS_KEY, JSON.stringify(proofs));
+  static async storeCoPresenceProof(proof: ZKCoPresenceProof): Promise<void> {
+    await CredentialStore.put('copresenceProofs', proof);
   }
 
-  // Get all stored co-presence proofs
-  static getStoredCoPresenceProofs(): ZKCoPresenceProof[] {
-    const stored = localStorage.getItem(this.COPRESENCE_PROOFS_KEY);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch (e) {
-        console.warn('Failed to parse stored co-presence proofs');
-      }
+  // Get all stored co-presence proofs, oldest first
+  static async getStoredCoPresenceProofs(): Promise<ZKCoPresenceProof[]> {
+    try {
+      const proofs = await CredentialStore.getAll<ZKCoPresenceProof>('copresenceProofs', 'timestamp');
+      // Proofs from before the signed handshake carried no transcript
+      return proofs.filter(proof => proof.transcript && proof.binding);
+    } catch (error) {
+      console.warn('Failed to load stored co-presence proofs:', error);
+      return [];
     }
-    return [];
   }
 
   // Export credentials for sharing
-  static exportCredentials(): string {
-    const credentials = this.getStoredCredentials();
+  static async exportCredentials(): Promise<string> {
+    const credentials = await this.getStoredCredentials();
     return JSON.stringify(credentials, null, 2);
   }
 
   // Import credentials
-  static importCredentials(data: string): boolean {
+  static async importCredentials(data: string): Promise<boolean> {
     try {
       const credentials = JSON.parse(data);
       if (Array.isArray(credentials)) {
-        localStorage.setItem(this.CREDENTIALS_KEY, data);
+        await CredentialStore.replaceAll<ZKCredential>('credentials', credentials);
         return true;
       }
     } catch (e) {
@@ -314,21 +363,48 @@ class ZKIdentityManager {
   }
 
   // Clear all data (for testing)
-  static clearAll(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
-    localStorage.removeItem(this.CREDENTIALS_KEY);
+  static async clearAll(): Promise<void> {
+    this.sessionIdentity = null;
+    await CredentialStore.delete('identity', IDENTITY_KEY);
+    await CredentialStore.clear('credentials');
+  }
+
+  // Persist the public half, skipping the write (and change notification) when unchanged
+  private static async storePublicIdentity(identity: ZKIdentity): Promise<void> {
+    const stored = await CredentialStore.get<StoredIdentity>('identity', IDENTITY_KEY);
+    if (
+      stored?.identityCommitment === identity.identityCommitment &&
+      stored.walletAddress === identity.walletAddress
+    ) {
+      return;
+    }
+
+    const { identityCommitment, nullifierHash, walletAddress } = identity;
+    await CredentialStore.put('identity', { identityCommitment, nullifierHash, walletAddress }, IDENTITY_KEY);
   }
 
-  // Helper to generate random hex string
-  private static generateRandomHex(length: number): string {
-    const bytes = new Uint8Array(length);
-    crypto.getRandomValues(bytes);
-    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  // Derive a field element from key material with a domain tag
+  private static deriveFieldElement(keyMaterial: string, tag: string): bigint {
+    const digest = ethers.keccak256(ethers.concat([keyMaterial, ethers.toUtf8Bytes(`zkpresence:${tag}`)]));
+    return BigInt(digest) % SNARK_SCALAR_FIELD;
+  }
+
+  private static toHex(value: bigint): string {
+    return ethers.toBeHex(value, 32);
+  }
+
+  // Public signals may be hex or decimal depending on the prover
+  private static isSameSignal(a: string | undefined, b: string | undefined): boolean {
+    if (!a || !b) return false;
+    try {
+      return BigInt(a) === BigInt(b);
+    } catch {
+      return a.toLowerCase() === b.toLowerCase();
+    }
   }
 
-  // Get identity stats
-  static getIdentityStats() {
-    const credentials = this.getStoredCredentials();
+  // Get identity stats for a set of loaded credentials
+  static getIdentityStats(credentials: ZKCredential[]) {
     const events = new Set(credentials.map(c => c.eventId)).size;
     const totalProofs = credentials.length;
     const validProofs = credentials.filter(c => c.proof.length > 0).length;
@@ -342,4 +418,4 @@ class ZKIdentityManager {
   }
 }
 
-export { ZKIdentityManager, type ZKCredential, type ZKIdentity, type ZKCoPresenceProof };
\ No newline at end of file
+export { ZKIdentityManager, type ZKCredential, type ZKIdentity, type StoredIdentity, type ZKCoPresenceProof };
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ethers } from "ethers";
+import QRCode from "qrcode";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Lock, Play, Square, TriangleAlert } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { CheckInManager } from "@/lib/checkIn";
+import { EventCatalog } from "@/lib/events";
+import { getUnlockedWallet, lockWallet, unlockWallet, type WalletKeypair } from "@/lib/wallet";
+
+const ROTATION_OPTIONS = [15, 30, 60];
+const DEFAULT_ROTATION_SECONDS = 30;
+
+const CheckInKiosk = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { eventId } = useParams<{ eventId: string }>();
+  const { user, loading } = useAuth();
+  const [wallet, setWallet] = useState<WalletKeypair | null>(() => getUnlockedWallet());
+  const [password, setPassword] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [rotationSeconds, setRotationSeconds] = useState(DEFAULT_ROTATION_SECONDS);
+  const [running, setRunning] = useState(false);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  // Only lock on leave if the kiosk was the one that unlocked the wallet
+  const unlockedHere = useRef(false);
+
+  const { data: event, isLoading: loadingEvent } = useQuery({
+    queryKey: ['event', eventId],
+    queryFn: () => EventCatalog.getEvent(eventId!),
+    enabled: !!eventId
+  });
+
+  const isOrganizer = !!event && !!user && event.organizerId === user.id;
+  const signerMatches = !!wallet && event?.organizerAddress?.toLowerCase() === wallet.address.toLowerCase();
+
+  useEffect(() => () => {
+    if (unlockedHere.current) {
+      lockWallet();
+    }
+  }, []);
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    try {
+      const unlocked = await unlockWallet(password);
+      unlockedHere.current = true;
+      setWallet(unlocked);
+      setPassword("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock wallet");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleUseWallet = async () => {
+    if (!event || !wallet) return;
+    try {
+      await EventCatalog.setOrganizerAddress(event.id, wallet.address);
+      await queryClient.invalidateQueries({ queryKey: ['event', event.id] });
+      toast.success("Check-in signer updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update event");
+    }
+  };
+
+  // Codes stay valid for two rotations so a scan started just before a rotation still succeeds
+  const rotate = useCallback(async () => {
+    if (!event || !wallet) return;
+    try {
+      const signer = new ethers.Wallet(wallet.privateKey);
+      const checkIn = await CheckInManager.issueChallenge(signer, event.id, rotationSeconds * 2);
+      const dataUrl = await QRCode.toDataURL(CheckInManager.encodeQRPayload(checkIn), {
+        errorCorrectionLevel: 'M',
+        margin: 1,
+        width: 512
+      });
+      setQrDataUrl(dataUrl);
+      setExpiresAt(Date.now() + rotationSeconds * 1000);
+    } catch (error) {
+      console.error('Failed to issue check-in code:', error);
+      toast.error("Failed to issue check-in code");
+      setRunning(false);
+    }
+  }, [event, wallet, rotationSeconds]);
+
+  useEffect(() => {
+    if (!running) {
+      setQrDataUrl(null);
+      return;
+    }
+
+    rotate();
+    const interval = setInterval(rotate, rotationSeconds * 1000);
+    return () => clearInterval(interval);
+  }, [running, rotate, rotationSeconds]);
+
+  useEffect(() => {
+    if (!running) return;
+    const tick = () => setSecondsLeft(Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 0));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [running, expiresAt]);
+
+  if (loading || loadingEvent) {
+    return (
+      <div className="min-h-screen bg-gradient-stage flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-stage">
+      <div className="p-6 pb-24 space-y-6 max-w-xl mx-auto animate-fade-in">
+        <div className="flex items-center justify-between">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold">Check-in Kiosk</h1>
+            <p className="text-muted-foreground">{event?.name ?? 'Unknown event'}</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/organizer')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {!event || !isOrganizer ? (
+          <Card className="shadow-card">
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Only the event's organizer can run its check-in kiosk.
+            </CardContent>
+          </Card>
+        ) : !wallet ? (
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Lock className="w-5 h-5 text-primary" />
+                Unlock Signing Wallet
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="kioskPassword">Wallet Password</Label>
+                <Input
+                  id="kioskPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleUnlock} disabled={unlocking || !password} className="w-full">
+                {unlocking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Unlock
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {!signerMatches && (
+              <Card className="shadow-card border-warning/30">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start gap-3 text-sm">
+                    <TriangleAlert className="w-5 h-5 text-warning shrink-0" />
+                    {event.organizerAddress
+                      ? 'This event accepts check-ins signed by a different wallet. Attendees will reject codes from this one.'
+                      : 'This event has no check-in signer yet.'}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={handleUseWallet}>
+                    Sign Check-ins With This Wallet
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="shadow-card">
+              <CardContent className="p-6 space-y-6">
+                <div className="aspect-square bg-white rounded-xl flex items-center justify-center overflow-hidden">
+                  {qrDataUrl ? (
+                    <img src={qrDataUrl} alt="Check-in QR code" className="w-full h-full" />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Start the kiosk to show a check-in code</p>
+                  )}
+                </div>
+
+                {running && (
+                  <div className="space-y-2">
+                    <Progress value={(secondsLeft / rotationSeconds) * 100} />
+                    <p className="text-sm text-center text-muted-foreground">
+                      New code in {secondsLeft}s
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Select
+                    value={String(rotationSeconds)}
+                    onValueChange={(value) => setRotationSeconds(Number(value))}
+                    disabled={running}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROTATION_OPTIONS.map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>
+                          Rotate every {seconds}s
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => setRunning(prev => !prev)}
+                    disabled={!signerMatches}
+                    variant={running ? "outline" : "default"}
+                  >
+                    {running ? (
+                      <>
+                        <Square className="w-4 h-4 mr-2" />
+                        Stop
+                      </>
+                    ) : (
+                      <>
+                        <Play className="w-4 h-4 mr-2" />
+                        Start
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckInKiosk;
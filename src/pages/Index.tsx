@@ -1,18 +1,21 @@
 import { useState, useEffect } from "react";
 import Onboarding from "@/components/Onboarding";
 import UserSignup from "@/components/UserSignup";
+import OnboardingFlow from "@/components/OnboardingFlow";
 import SplashScreen from "@/components/SplashScreen";
 import TabNavigation from "@/components/TabNavigation";
 import HomeScreen from "@/components/screens/HomeScreen";
 import ProofsScreen from "@/components/screens/ProofsScreen"; 
 import EventsScreen from "@/components/screens/EventsScreen";
 import ProfileScreen from "@/components/screens/ProfileScreen";
+import { ZKIdentityProvider } from "@/components/ZKIdentityProvider";
 import { useAuth } from "@/hooks/useAuth";
 
 const Index = () => {
   const [showSplash, setShowSplash] = useState(true);
   const [showOnboarding, setShowOnboarding] = useState(true);
   const [showSignup, setShowSignup] = useState(false);
+  const [showCredentialSetup, setShowCredentialSetup] = useState(false);
   const [activeTab, setActiveTab] = useState('home');
   const { user, loading } = useAuth();
 
@@ -42,6 +45,15 @@ const Index = () => {
 
   const handleSignupComplete = () => {
     setShowSignup(false);
+    // New wallets go through credential setup once per device
+    if (!localStorage.getItem('zkpresence-credential-setup-completed')) {
+      setShowCredentialSetup(true);
+    }
+  };
+
+  const handleCredentialSetupComplete = () => {
+    localStorage.setItem('zkpresence-credential-setup-completed', 'true');
+    setShowCredentialSetup(false);
   };
 
   if (showSplash) {
@@ -67,6 +79,10 @@ const Index = () => {
     return <UserSignup onComplete={handleSignupComplete} />;
   }
 
+  if (showCredentialSetup) {
+    return <OnboardingFlow onComplete={handleCredentialSetupComplete} />;
+  }
+
   const renderActiveScreen = () => {
     switch (activeTab) {
       case 'home':
@@ -83,12 +99,14 @@ const Index = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-stage">
-      <main className="min-h-screen">
-        {renderActiveScreen()}
-      </main>
-      <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
-    </div>
+    <ZKIdentityProvider>
+      <div className="min-h-screen bg-gradient-stage">
+        <main className="min-h-screen">
+          {renderActiveScreen()}
+        </main>
+        <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
+      </div>
+    </ZKIdentityProvider>
   );
 };
 
@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Calendar, Loader2, MapPin, ShieldAlert, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useCreateEvent, useOrganizerEvents, useRegisterEventOnChain, useRegistryOwner } from "@/hooks/useOrganizer";
+import { OrganizerEventForm } from "@/components/OrganizerEventForm";
+import { EventProofsPanel } from "@/components/EventProofsPanel";
+import { BlockchainManager } from "@/lib/blockchain";
+import { getStoredWalletAddress } from "@/lib/wallet";
+import type { CatalogEvent, NewEventInput } from "@/lib/events";
+
+const Organizer = () => {
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const [walletConnected, setWalletConnected] = useState(false);
+  const [connecting, setConnecting] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<CatalogEvent | null>(null);
+  const [appWalletAddress, setAppWalletAddress] = useState<string | null>(null);
+
+  const { data: isOwner = false, isLoading: checkingOwner } = useRegistryOwner(walletConnected);
+  const { data: events = [], isLoading: loadingEvents } = useOrganizerEvents(user?.id);
+  const createEvent = useCreateEvent(user?.id);
+  const registerOnChain = useRegisterEventOnChain();
+
+  useEffect(() => {
+    BlockchainManager.isConnected().then(setWalletConnected);
+    getStoredWalletAddress().then(setAppWalletAddress);
+  }, []);
+
+  const handleConnectWallet = async () => {
+    setConnecting(true);
+    try {
+      const connected = await BlockchainManager.connectWallet();
+      setWalletConnected(connected);
+      if (!connected) {
+        toast.error("Failed to connect wallet");
+      }
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  // The row is written first so the event exists even if the transaction is rejected;
+  // it can then be registered later from its proofs panel
+  const handleCreateEvent = async (input: NewEventInput): Promise<boolean> => {
+    let event: CatalogEvent;
+    try {
+      event = await createEvent.mutateAsync(input);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create event");
+      return false;
+    }
+
+    setSelectedEvent(event);
+    try {
+      const txHash = await registerOnChain.mutateAsync(event);
+      toast.success("Event created and registered on-chain", { description: txHash });
+    } catch (error) {
+      toast.warning("Event created, but on-chain registration failed", {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+    return true;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-stage flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-stage">
+      <div className="p-6 pb-24 space-y-6 max-w-3xl mx-auto animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold">Organizer Console</h1>
+            <p className="text-muted-foreground">Create events and track their attendance proofs</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        {!user ? (
+          <Card className="shadow-card">
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Sign in to manage events.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Wallet */}
+            <Card className="shadow-card">
+              <CardContent className="p-4 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Wallet className="w-5 h-5 text-primary" />
+                  <div>
+                    <p className="font-medium">Registry Wallet</p>
+                    <p className="text-xs text-muted-foreground">
+                      Only the registry owner can register events on-chain
+                    </p>
+                  </div>
+                </div>
+                {!walletConnected ? (
+                  <Button size="sm" onClick={handleConnectWallet} disabled={connecting}>
+                    {connecting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Connect
+                  </Button>
+                ) : checkingOwner ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <Badge variant={isOwner ? 'default' : 'secondary'}>
+                    {isOwner ? 'Authorized' : 'Not authorized'}
+                  </Badge>
+                )}
+              </CardContent>
+            </Card>
+
+            {walletConnected && !checkingOwner && !isOwner ? (
+              <Card className="shadow-card border-warning/30">
+                <CardContent className="p-4 flex items-center gap-3 text-sm">
+                  <ShieldAlert className="w-5 h-5 text-warning shrink-0" />
+                  Switch to the registry owner wallet to create events.
+                </CardContent>
+              </Card>
+            ) : (
+              <OrganizerEventForm
+                defaultOrganizer={user.user_metadata?.display_name || 'Anonymous Organizer'}
+                organizerAddress={appWalletAddress}
+                submitting={createEvent.isPending || registerOnChain.isPending}
+                onSubmit={handleCreateEvent}
+              />
+            )}
+
+            {/* Organizer's events */}
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle className="text-lg">Your Events</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {loadingEvents && <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />}
+                {!loadingEvents && events.length === 0 && (
+                  <p className="text-sm text-muted-foreground">You haven't created any events yet.</p>
+                )}
+                {events.map(event => (
+                  <button
+                    key={event.id}
+                    onClick={() => setSelectedEvent(event)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      selectedEvent?.id === event.id ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                    }`}
+                  >
+                    <p className="font-medium">{event.name}</p>
+                    <div className="flex gap-4 text-xs text-muted-foreground mt-1">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {format(event.startsAt, 'MMM d, yyyy p')}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />
+                        {event.location}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selectedEvent && (
+              <EventProofsPanel event={selectedEvent} walletConnected={walletConnected} isOwner={isOwner} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Organizer;
@@ -0,0 +1,70 @@
+// Web Worker running snarkjs Groth16 proving and verification off the main thread
+
+import { ethers } from 'ethers';
+import * as snarkjs from 'snarkjs';
+import type { Groth16Proof } from 'snarkjs';
+import eventWasmUrl from '@/circuits/event_attendance/event_attendance.wasm?url';
+import eventZkeyUrl from '@/circuits/event_attendance/event_attendance.zkey?url';
+import eventVerificationKey from '@/circuits/event_attendance/verification_key.json';
+import ageWasmUrl from '@/circuits/age_verification/age_verification.wasm?url';
+import ageZkeyUrl from '@/circuits/age_verification/age_verification.zkey?url';
+import ageVerificationKey from '@/circuits/age_verification/verification_key.json';
+import uniquenessWasmUrl from '@/circuits/uniqueness/uniqueness.wasm?url';
+import uniquenessZkeyUrl from '@/circuits/uniqueness/uniqueness.zkey?url';
+import uniquenessVerificationKey from '@/circuits/uniqueness/verification_key.json';
+import coPresenceWasmUrl from '@/circuits/co_presence/co_presence.wasm?url';
+import coPresenceZkeyUrl from '@/circuits/co_presence/co_presence.zkey?url';
+import coPresenceVerificationKey from '@/circuits/co_presence/verification_key.json';
+import type { CircuitName } from '@/circuits/signals';
+import type { SnarkjsWorkerRequest, SnarkjsWorkerResponse } from '@/lib/snarkjsProver';
+
+interface CircuitArtifacts {
+  wasm: string;
+  zkey: string;
+  verificationKey: object;
+}
+
+const CIRCUITS: Record<CircuitName, CircuitArtifacts> = {
+  event_attendance: { wasm: eventWasmUrl, zkey: eventZkeyUrl, verificationKey: eventVerificationKey },
+  age_verification: { wasm: ageWasmUrl, zkey: ageZkeyUrl, verificationKey: ageVerificationKey },
+  uniqueness: { wasm: uniquenessWasmUrl, zkey: uniquenessZkeyUrl, verificationKey: uniquenessVerificationKey },
+  co_presence: { wasm: coPresenceWasmUrl, zkey: coPresenceZkeyUrl, verificationKey: coPresenceVerificationKey }
+};
+
+// Identifies which trusted setup a proof was made with
+const verificationKeyId = (circuit: CircuitName): string =>
+  ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(CIRCUITS[circuit].verificationKey)));
+
+const handle = async (request: SnarkjsWorkerRequest) => {
+  const artifacts = CIRCUITS[request.circuit];
+  if (!artifacts) {
+    throw new Error(`Unknown circuit: ${request.circuit}`);
+  }
+
+  if (request.op === 'prove') {
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(request.inputs, artifacts.wasm, artifacts.zkey);
+    return {
+      proof: JSON.stringify(proof),
+      publicSignals,
+      verificationKey: verificationKeyId(request.circuit)
+    };
+  }
+
+  // Proofs made with a previous trusted setup cannot verify against the current key
+  if (request.verificationKey !== verificationKeyId(request.circuit)) {
+    return false;
+  }
+  const proof = JSON.parse(request.proof) as Groth16Proof;
+  return snarkjs.groth16.verify(artifacts.verificationKey, request.publicSignals, proof);
+};
+
+self.onmessage = async (event: MessageEvent<SnarkjsWorkerRequest>) => {
+  const { id } = event.data;
+  let response: SnarkjsWorkerResponse;
+  try {
+    response = { id, ok: true, result: await handle(event.data) };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -1,5 +1,7 @@
--- Create profiles table for user information
-CREATE TABLE public.profiles (
+-- public.profiles is created in 20250902084650. This migration originally
+-- re-created it with conflicting RLS; it is kept idempotent so the history
+-- still replays on a fresh database. Policies are reconciled in 20251019120000.
+CREATE TABLE IF NOT EXISTS public.profiles (
   id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID NOT NULL UNIQUE,
   display_name TEXT,
@@ -12,22 +14,6 @@ CREATE TABLE public.profiles (
 -- Enable Row Level Security
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 
--- Create policies
-CREATE POLICY "Profiles are viewable by everyone" 
-ON public.profiles 
-FOR SELECT 
-USING (true);
-
-CREATE POLICY "Users can update their own profile" 
-ON public.profiles 
-FOR UPDATE 
-USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can insert their own profile" 
-ON public.profiles 
-FOR INSERT 
-WITH CHECK (auth.uid() = user_id);
-
 -- Create function to update timestamps
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -38,23 +24,8 @@ END;
 $$ LANGUAGE plpgsql SET search_path = public;
 
 -- Create trigger for automatic timestamp updates
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON public.profiles;
 CREATE TRIGGER update_profiles_updated_at
   BEFORE UPDATE ON public.profiles
   FOR EACH ROW
   EXECUTE FUNCTION public.update_updated_at_column();
-
--- Create function to handle new user signup
-CREATE OR REPLACE FUNCTION public.handle_new_user()
-RETURNS TRIGGER AS $$
-BEGIN
-  INSERT INTO public.profiles (user_id)
-  VALUES (NEW.id);
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql SET search_path = public;
-
--- Create trigger for new user signups
-CREATE TRIGGER on_auth_user_created
-  AFTER INSERT ON auth.users
-  FOR EACH ROW
-  EXECUTE FUNCTION public.handle_new_user();
\ No newline at end of file
@@ -0,0 +1,177 @@
+-- Shared group sessions so participants on different devices join the same session
+CREATE TABLE public.group_sessions (
+  id TEXT NOT NULL PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  host_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_participants INTEGER NOT NULL DEFAULT 10 CHECK (max_participants > 0),
+  min_participants INTEGER NOT NULL DEFAULT 3 CHECK (min_participants > 0),
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'active', 'completed', 'expired')),
+  location TEXT,
+  -- Only the SHA-256 of the session key is stored; the key itself travels in the QR code
+  session_key_hash TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.group_participants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  commitment TEXT NOT NULL,
+  nullifier TEXT NOT NULL,
+  is_host BOOLEAN NOT NULL DEFAULT false,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, user_id),
+  UNIQUE (session_id, commitment)
+);
+
+CREATE INDEX group_sessions_event_id_idx ON public.group_sessions (event_id);
+CREATE INDEX group_participants_user_id_idx ON public.group_participants (user_id);
+
+CREATE TRIGGER update_group_sessions_updated_at
+  BEFORE UPDATE ON public.group_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership check used by RLS; SECURITY DEFINER avoids recursive policy evaluation
+CREATE OR REPLACE FUNCTION public.is_group_member(p_session_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_participants
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.group_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their group sessions"
+ON public.group_sessions
+FOR SELECT
+USING (auth.uid() = host_user_id OR public.is_group_member(id));
+
+CREATE POLICY "Users can host group sessions"
+ON public.group_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = host_user_id);
+
+CREATE POLICY "Hosts can update their group sessions"
+ON public.group_sessions
+FOR UPDATE
+USING (auth.uid() = host_user_id);
+
+CREATE POLICY "Members can view participants of their sessions"
+ON public.group_participants
+FOR SELECT
+USING (public.is_group_member(session_id));
+
+-- Everyone else joins through join_group_session()
+CREATE POLICY "Hosts can add themselves to their sessions"
+ON public.group_participants
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND is_host
+  AND EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = session_id AND s.host_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Participants can leave and hosts can remove participants"
+ON public.group_participants
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = session_id AND s.host_user_id = auth.uid()
+  )
+);
+
+-- Server-side join: validates the session key and capacity under a row lock
+CREATE OR REPLACE FUNCTION public.join_group_session(
+  p_session_id TEXT,
+  p_event_id TEXT,
+  p_session_key TEXT,
+  p_username TEXT,
+  p_commitment TEXT,
+  p_nullifier TEXT
+)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  -- Participant nullifiers are scoped to the event, so it has to match
+  IF v_session.event_id <> p_event_id THEN
+    RAISE EXCEPTION 'Session does not belong to this event';
+  END IF;
+
+  IF v_session.session_key_hash <> encode(sha256(convert_to(coalesce(p_session_key, ''), 'UTF8')), 'hex') THEN
+    RAISE EXCEPTION 'Invalid session key';
+  END IF;
+
+  -- Already joined
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND user_id = auth.uid()) THEN
+    RETURN v_session;
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer accepting participants';
+  END IF;
+
+  IF now() > v_session.expires_at THEN
+    RAISE EXCEPTION 'Session has expired';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = p_session_id;
+
+  IF v_count >= v_session.max_participants THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND commitment = p_commitment) THEN
+    RAISE EXCEPTION 'This identity has already joined the session';
+  END IF;
+
+  INSERT INTO public.group_participants (session_id, user_id, username, commitment, nullifier, is_host)
+  VALUES (p_session_id, auth.uid(), p_username, p_commitment, p_nullifier, false);
+
+  IF v_count + 1 >= v_session.min_participants AND v_session.status = 'waiting' THEN
+    UPDATE public.group_sessions SET status = 'active' WHERE id = p_session_id
+    RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_group_session(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_group_session(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Stream participant and status changes to connected clients
+ALTER TABLE public.group_sessions REPLICA IDENTITY FULL;
+ALTER TABLE public.group_participants REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_participants;
@@ -0,0 +1,43 @@
+-- End-to-end encrypted cloud backup of credentials and proofs
+-- Payloads are AES-GCM envelopes produced on the client with a wallet-derived key,
+-- and record_key is a blinded identifier, so the server never sees plaintext.
+CREATE TABLE public.encrypted_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  record_key TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('credential', 'copresence_proof', 'group_proof')),
+  -- NULL once the record is a tombstone
+  payload JSONB,
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  -- Client modification time in milliseconds, used for last-write-wins
+  modified_at BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, record_key),
+  CHECK (deleted OR payload IS NOT NULL)
+);
+
+CREATE INDEX encrypted_records_user_modified_idx ON public.encrypted_records (user_id, modified_at);
+
+ALTER TABLE public.encrypted_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own encrypted records"
+ON public.encrypted_records
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own encrypted records"
+ON public.encrypted_records
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Deletions are tombstones, so there is no DELETE policy
+CREATE POLICY "Users can update their own encrypted records"
+ON public.encrypted_records
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_encrypted_records_updated_at
+  BEFORE UPDATE ON public.encrypted_records
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
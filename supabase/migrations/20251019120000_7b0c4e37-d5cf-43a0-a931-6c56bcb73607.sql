@@ -0,0 +1,161 @@
+-- Reconcile public.profiles after the duplicate create migrations
+-- Profiles hold phone numbers and wallet addresses, so only the owner may read them.
+DROP POLICY IF EXISTS "Profiles are viewable by everyone" ON public.profiles;
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can create their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own profile"
+ON public.profiles
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- The second create migration dropped the foreign key to auth.users
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'public.profiles'::regclass
+      AND contype = 'f'
+  ) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END;
+$$;
+
+-- Restore the display name copy that the later handle_new_user rewrites lost
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'display_name');
+  RETURN NEW;
+END;
+$$;
+
+-- Event catalog
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  location TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'Meetup',
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Display name shown to attendees; organizer_id links the owning account
+  organizer TEXT NOT NULL,
+  organizer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requires_proof BOOLEAN NOT NULL DEFAULT true,
+  image TEXT,
+  -- Maintained by trigger so attendance rows never need to be public
+  attendee_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at >= starts_at)
+);
+
+CREATE INDEX events_starts_at_idx ON public.events (starts_at);
+CREATE INDEX events_category_idx ON public.events (category);
+CREATE INDEX events_organizer_id_idx ON public.events (organizer_id);
+
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Events are viewable by everyone"
+ON public.events
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can create events"
+ON public.events
+FOR INSERT
+WITH CHECK (auth.uid() = organizer_id);
+
+CREATE POLICY "Organizers can update their events"
+ON public.events
+FOR UPDATE
+USING (auth.uid() = organizer_id);
+
+CREATE POLICY "Organizers can delete their events"
+ON public.events
+FOR DELETE
+USING (auth.uid() = organizer_id);
+
+-- One row per claimed attendance. The event-scoped nullifier keeps claims unique
+-- without revealing which identity made them.
+CREATE TABLE public.event_attendance (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  nullifier TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'claimed' CHECK (status IN ('claimed', 'submitted', 'confirmed')),
+  tx_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (event_id, nullifier),
+  UNIQUE (event_id, user_id)
+);
+
+CREATE INDEX event_attendance_user_id_idx ON public.event_attendance (user_id);
+
+CREATE TRIGGER update_event_attendance_updated_at
+  BEFORE UPDATE ON public.event_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.event_attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attendance"
+ON public.event_attendance
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own attendance"
+ON public.event_attendance
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own attendance"
+ON public.event_attendance
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_event_attendee_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.events SET attendee_count = attendee_count + 1 WHERE id = NEW.event_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.events SET attendee_count = greatest(attendee_count - 1, 0) WHERE id = OLD.event_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_event_attendee_count
+  AFTER INSERT OR DELETE ON public.event_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_event_attendee_count();
@@ -0,0 +1,5 @@
+-- Wallet address that signs check-in QR codes for an event.
+-- Attendees only accept check-in challenges signed by this address.
+ALTER TABLE public.events
+  ADD COLUMN organizer_address TEXT
+  CHECK (organizer_address IS NULL OR organizer_address ~* '^0x[0-9a-f]{40}$');
@@ -0,0 +1,141 @@
+-- Revocable group session invite tokens
+-- An invitation (sessionId, eventId, expiry, optional participant cap) carries an
+-- HMAC under a per-session invite key that only the host and the server can read.
+-- It is a bearer token, not a host signature: join_group_session recomputes the HMAC,
+-- and rotating the key revokes every outstanding invitation.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.group_session_invite_keys (
+  session_id TEXT NOT NULL PRIMARY KEY REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  -- 32 random bytes, hex encoded
+  invite_key TEXT NOT NULL CHECK (invite_key ~ '^[0-9a-f]{64}$'),
+  rotated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.group_session_invite_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hosts can view their invite keys"
+ON public.group_session_invite_keys
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.group_sessions s
+  WHERE s.id = session_id AND s.host_user_id = auth.uid()
+));
+
+CREATE POLICY "Hosts can create their invite keys"
+ON public.group_session_invite_keys
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.group_sessions s
+  WHERE s.id = session_id AND s.host_user_id = auth.uid()
+));
+
+CREATE POLICY "Hosts can rotate their invite keys"
+ON public.group_session_invite_keys
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.group_sessions s
+  WHERE s.id = session_id AND s.host_user_id = auth.uid()
+));
+
+-- Existing sessions get a fresh key; invitations carrying the old session key stop working
+INSERT INTO public.group_session_invite_keys (session_id, invite_key)
+SELECT id, encode(extensions.gen_random_bytes(32), 'hex') FROM public.group_sessions;
+
+DROP FUNCTION public.join_group_session(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+ALTER TABLE public.group_sessions DROP COLUMN session_key_hash;
+
+-- Server-side join: validates the invite token, expiry and capacity under a row lock
+CREATE OR REPLACE FUNCTION public.join_group_session(
+  p_session_id TEXT,
+  p_event_id TEXT,
+  p_invite_expires_at BIGINT,
+  p_invite_max_participants INTEGER,
+  p_invite_signature TEXT,
+  p_username TEXT,
+  p_commitment TEXT,
+  p_nullifier TEXT
+)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+  v_invite_key TEXT;
+  v_expected TEXT;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  -- Participant nullifiers are scoped to the event, so it has to match
+  IF v_session.event_id <> p_event_id THEN
+    RAISE EXCEPTION 'Session does not belong to this event';
+  END IF;
+
+  -- Must match GroupProofManager.invitationMessage
+  SELECT invite_key INTO v_invite_key FROM public.group_session_invite_keys WHERE session_id = p_session_id;
+  v_expected := encode(extensions.hmac(
+    convert_to(format('zkpresence-group-invite:1:%s:%s:%s:%s',
+      p_session_id, p_event_id, p_invite_expires_at, coalesce(p_invite_max_participants, 0)), 'UTF8'),
+    decode(coalesce(v_invite_key, ''), 'hex'),
+    'sha256'
+  ), 'hex');
+
+  IF v_invite_key IS NULL OR p_invite_signature IS NULL OR lower(p_invite_signature) <> v_expected THEN
+    RAISE EXCEPTION 'Invalid or revoked invitation';
+  END IF;
+
+  -- Already joined
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND user_id = auth.uid()) THEN
+    RETURN v_session;
+  END IF;
+
+  IF now() > to_timestamp(p_invite_expires_at / 1000.0) THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer accepting participants';
+  END IF;
+
+  IF now() > v_session.expires_at THEN
+    RAISE EXCEPTION 'Session has expired';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = p_session_id;
+
+  IF v_count >= v_session.max_participants THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  IF coalesce(p_invite_max_participants, 0) > 0 AND v_count >= p_invite_max_participants THEN
+    RAISE EXCEPTION 'This invitation has reached its participant limit';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND commitment = p_commitment) THEN
+    RAISE EXCEPTION 'This identity has already joined the session';
+  END IF;
+
+  INSERT INTO public.group_participants (session_id, user_id, username, commitment, nullifier, is_host)
+  VALUES (p_session_id, auth.uid(), p_username, p_commitment, p_nullifier, false);
+
+  IF v_count + 1 >= v_session.min_participants AND v_session.status = 'waiting' THEN
+    UPDATE public.group_sessions SET status = 'active' WHERE id = p_session_id
+    RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_group_session(TEXT, TEXT, BIGINT, INTEGER, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_group_session(TEXT, TEXT, BIGINT, INTEGER, TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,534 @@
+-- Host moderation for group sessions
+-- Joining with a valid invitation now files a pending request that the host approves
+-- or rejects. Hosts can remove participants and lock the session against new ones.
+-- Every membership change is written to group_session_audit by triggers, so the trail
+-- is complete no matter which client made the change.
+ALTER TABLE public.group_sessions
+  ADD COLUMN locked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.group_join_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  commitment TEXT NOT NULL,
+  nullifier TEXT NOT NULL,
+  -- Participant cap of the invitation used, re-checked on approval
+  invite_max_participants INTEGER NOT NULL DEFAULT 0,
+  -- 'left' marks an approved member who left on their own and may ask to rejoin
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'left')),
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (session_id, user_id)
+);
+
+CREATE INDEX group_join_requests_user_id_idx ON public.group_join_requests (user_id);
+
+CREATE TABLE public.group_session_audit (
+  -- Identity order is the order of events, even within one transaction
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN (
+    'session_created',
+    'join_requested',
+    'join_cancelled',
+    'join_approved',
+    'join_rejected',
+    'participant_joined',
+    'participant_left',
+    'participant_removed',
+    'session_locked',
+    'session_unlocked',
+    'invitations_revoked',
+    'status_changed'
+  )),
+  actor_user_id UUID,
+  subject_user_id UUID,
+  subject_username TEXT,
+  detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX group_session_audit_session_id_idx ON public.group_session_audit (session_id, id);
+
+ALTER TABLE public.group_join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_session_audit ENABLE ROW LEVEL SECURITY;
+
+-- Join request check used by RLS; SECURITY DEFINER avoids recursive policy evaluation
+CREATE OR REPLACE FUNCTION public.has_group_join_request(p_session_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_join_requests
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Requesters can see the session they asked to join, but not its members
+CREATE POLICY "Requesters can view sessions they asked to join"
+ON public.group_sessions
+FOR SELECT
+USING (public.has_group_join_request(id));
+
+CREATE POLICY "Users and hosts can view join requests"
+ON public.group_join_requests
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = session_id AND s.host_user_id = auth.uid()
+  )
+);
+
+-- Requests are filed through join_group_session() and decided through the review functions
+CREATE POLICY "Users can withdraw pending join requests"
+ON public.group_join_requests
+FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+-- Append-only: rows are written by the triggers below
+CREATE POLICY "Members and hosts can view the audit trail"
+ON public.group_session_audit
+FOR SELECT
+USING (
+  public.is_group_member(session_id)
+  OR EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = session_id AND s.host_user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_group_audit(
+  p_session_id TEXT,
+  p_action TEXT,
+  p_subject_user_id UUID DEFAULT NULL,
+  p_subject_username TEXT DEFAULT NULL,
+  p_detail TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Rows removed by a session delete cascade have nothing left to audit against
+  IF NOT EXISTS (SELECT 1 FROM public.group_sessions WHERE id = p_session_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.group_session_audit (session_id, action, actor_user_id, subject_user_id, subject_username, detail)
+  VALUES (p_session_id, p_action, auth.uid(), p_subject_user_id, p_subject_username, p_detail);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_group_audit(TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.audit_group_session_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.record_group_audit(NEW.id, 'session_created');
+    RETURN NEW;
+  END IF;
+
+  IF NEW.locked IS DISTINCT FROM OLD.locked THEN
+    PERFORM public.record_group_audit(NEW.id, CASE WHEN NEW.locked THEN 'session_locked' ELSE 'session_unlocked' END);
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.record_group_audit(NEW.id, 'status_changed', NULL, NULL, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_group_participant_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.record_group_audit(NEW.session_id, 'participant_joined', NEW.user_id, NEW.username);
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.record_group_audit(
+    OLD.session_id,
+    CASE WHEN auth.uid() = OLD.user_id THEN 'participant_left' ELSE 'participant_removed' END,
+    OLD.user_id,
+    OLD.username
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_group_join_request_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.record_group_audit(NEW.session_id, 'join_requested', NEW.user_id, NEW.username);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.record_group_audit(OLD.session_id, 'join_cancelled', OLD.user_id, OLD.username);
+    RETURN OLD;
+  END IF;
+
+  -- A member leaving is already recorded as participant_left
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'left' THEN
+    PERFORM public.record_group_audit(
+      NEW.session_id,
+      CASE NEW.status WHEN 'approved' THEN 'join_approved' WHEN 'rejected' THEN 'join_rejected' ELSE 'join_requested' END,
+      NEW.user_id,
+      NEW.username
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Members who leave on their own may ask to rejoin; host removals keep the approved request
+CREATE OR REPLACE FUNCTION public.mark_group_join_request_left()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() = OLD.user_id THEN
+    UPDATE public.group_join_requests
+    SET status = 'left', decided_at = now(), decided_by = auth.uid()
+    WHERE session_id = OLD.session_id AND user_id = OLD.user_id AND status = 'approved';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_group_invite_key_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_group_audit(NEW.session_id, 'invitations_revoked');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_group_sessions
+  AFTER INSERT OR UPDATE ON public.group_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_group_session_change();
+
+CREATE TRIGGER audit_group_participants
+  AFTER INSERT OR DELETE ON public.group_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_group_participant_change();
+
+CREATE TRIGGER mark_group_join_request_left
+  AFTER DELETE ON public.group_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_group_join_request_left();
+
+CREATE TRIGGER audit_group_join_requests
+  AFTER INSERT OR UPDATE OR DELETE ON public.group_join_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_group_join_request_change();
+
+CREATE TRIGGER audit_group_invite_keys
+  AFTER UPDATE OF invite_key ON public.group_session_invite_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_group_invite_key_change();
+
+-- Joining now files a pending request; the invitation is still verified here
+CREATE OR REPLACE FUNCTION public.join_group_session(
+  p_session_id TEXT,
+  p_event_id TEXT,
+  p_invite_expires_at BIGINT,
+  p_invite_max_participants INTEGER,
+  p_invite_signature TEXT,
+  p_username TEXT,
+  p_commitment TEXT,
+  p_nullifier TEXT
+)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+  v_request public.group_join_requests;
+  v_invite_key TEXT;
+  v_expected TEXT;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  -- Participant nullifiers are scoped to the event, so it has to match
+  IF v_session.event_id <> p_event_id THEN
+    RAISE EXCEPTION 'Session does not belong to this event';
+  END IF;
+
+  -- Must match GroupProofManager.invitationMessage
+  SELECT invite_key INTO v_invite_key FROM public.group_session_invite_keys WHERE session_id = p_session_id;
+  v_expected := encode(extensions.hmac(
+    convert_to(format('zkpresence-group-invite:1:%s:%s:%s:%s',
+      p_session_id, p_event_id, p_invite_expires_at, coalesce(p_invite_max_participants, 0)), 'UTF8'),
+    decode(coalesce(v_invite_key, ''), 'hex'),
+    'sha256'
+  ), 'hex');
+
+  IF v_invite_key IS NULL OR p_invite_signature IS NULL OR lower(p_invite_signature) <> v_expected THEN
+    RAISE EXCEPTION 'Invalid or revoked invitation';
+  END IF;
+
+  -- Already joined
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND user_id = auth.uid()) THEN
+    RETURN v_session;
+  END IF;
+
+  -- Members who left are re-filed as pending below, like a new requester
+  SELECT * INTO v_request FROM public.group_join_requests WHERE session_id = p_session_id AND user_id = auth.uid();
+  IF FOUND THEN
+    IF v_request.status = 'pending' THEN
+      RETURN v_session;
+    ELSIF v_request.status = 'rejected' THEN
+      RAISE EXCEPTION 'The host declined your request to join';
+    ELSIF v_request.status = 'approved' THEN
+      RAISE EXCEPTION 'You were removed from this session';
+    END IF;
+  END IF;
+
+  IF now() > to_timestamp(p_invite_expires_at / 1000.0) THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer accepting participants';
+  END IF;
+
+  IF v_session.locked THEN
+    RAISE EXCEPTION 'The host has locked this session';
+  END IF;
+
+  IF now() > v_session.expires_at THEN
+    RAISE EXCEPTION 'Session has expired';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = p_session_id;
+
+  IF v_count >= v_session.max_participants THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  IF coalesce(p_invite_max_participants, 0) > 0 AND v_count >= p_invite_max_participants THEN
+    RAISE EXCEPTION 'This invitation has reached its participant limit';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = p_session_id AND commitment = p_commitment) THEN
+    RAISE EXCEPTION 'This identity has already joined the session';
+  END IF;
+
+  IF v_request.id IS NOT NULL THEN
+    UPDATE public.group_join_requests
+    SET status = 'pending',
+        username = p_username,
+        commitment = p_commitment,
+        nullifier = p_nullifier,
+        invite_max_participants = coalesce(p_invite_max_participants, 0),
+        requested_at = now(),
+        decided_at = NULL,
+        decided_by = NULL
+    WHERE id = v_request.id;
+  ELSE
+    INSERT INTO public.group_join_requests (session_id, user_id, username, commitment, nullifier, invite_max_participants)
+    VALUES (p_session_id, auth.uid(), p_username, p_commitment, p_nullifier, coalesce(p_invite_max_participants, 0));
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Host only: admit a pending requester, re-checking capacity under the session lock
+CREATE OR REPLACE FUNCTION public.approve_group_join_request(p_request_id UUID)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_request public.group_join_requests;
+  v_session public.group_sessions;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_request FROM public.group_join_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = v_request.session_id FOR UPDATE;
+
+  IF v_session.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can approve join requests';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been handled';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') OR now() > v_session.expires_at THEN
+    RAISE EXCEPTION 'Session is no longer accepting participants';
+  END IF;
+
+  IF v_session.locked THEN
+    RAISE EXCEPTION 'Unlock the session to approve new participants';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = v_session.id;
+
+  IF v_count >= v_session.max_participants THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  IF v_request.invite_max_participants > 0 AND v_count >= v_request.invite_max_participants THEN
+    RAISE EXCEPTION 'This invitation has reached its participant limit';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.group_participants WHERE session_id = v_session.id AND commitment = v_request.commitment) THEN
+    RAISE EXCEPTION 'This identity has already joined the session';
+  END IF;
+
+  UPDATE public.group_join_requests
+  SET status = 'approved', decided_at = now(), decided_by = auth.uid()
+  WHERE id = p_request_id;
+
+  INSERT INTO public.group_participants (session_id, user_id, username, commitment, nullifier, is_host)
+  VALUES (v_session.id, v_request.user_id, v_request.username, v_request.commitment, v_request.nullifier, false);
+
+  IF v_count + 1 >= v_session.min_participants AND v_session.status = 'waiting' THEN
+    UPDATE public.group_sessions SET status = 'active' WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_group_join_request(p_request_id UUID)
+RETURNS public.group_join_requests
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_request public.group_join_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.group_join_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_sessions s
+    WHERE s.id = v_request.session_id AND s.host_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the host can reject join requests';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been handled';
+  END IF;
+
+  UPDATE public.group_join_requests
+  SET status = 'rejected', decided_at = now(), decided_by = auth.uid()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+-- Host only: lock and complete the session, returning the roster the group proof is built
+-- over. Holding the session row lock keeps approvals out while the roster is read.
+CREATE OR REPLACE FUNCTION public.finalize_group_session(p_session_id TEXT)
+RETURNS SETOF public.group_participants
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can generate the group proof';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer active';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = p_session_id;
+
+  IF v_count < v_session.min_participants THEN
+    RAISE EXCEPTION 'Minimum % participants required', v_session.min_participants;
+  END IF;
+
+  UPDATE public.group_sessions SET locked = true, status = 'completed' WHERE id = p_session_id;
+
+  RETURN QUERY
+    SELECT * FROM public.group_participants WHERE session_id = p_session_id ORDER BY joined_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_group_join_request(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_group_join_request(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.reject_group_join_request(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reject_group_join_request(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_group_session(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finalize_group_session(TEXT) TO authenticated;
+
+-- Hosts cannot remove themselves, and nobody is removed once the proof is generated
+DROP POLICY "Participants can leave and hosts can remove participants" ON public.group_participants;
+
+CREATE POLICY "Participants can leave and hosts can remove participants"
+ON public.group_participants
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR (
+    NOT is_host
+    AND EXISTS (
+      SELECT 1 FROM public.group_sessions s
+      WHERE s.id = session_id AND s.host_user_id = auth.uid() AND s.status IN ('waiting', 'active')
+    )
+  )
+);
+
+ALTER TABLE public.group_join_requests REPLICA IDENTITY FULL;
+ALTER TABLE public.group_session_audit REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_join_requests;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_session_audit;
@@ -0,0 +1,54 @@
+-- Create a group session, its host participant and its invite key in one transaction,
+-- so a failure part way can no longer leave a session nobody can join
+CREATE OR REPLACE FUNCTION public.create_group_session(
+  p_session_id TEXT,
+  p_event_id TEXT,
+  p_event_name TEXT,
+  p_max_participants INTEGER,
+  p_min_participants INTEGER,
+  p_location TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_username TEXT,
+  p_commitment TEXT,
+  p_nullifier TEXT
+)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_min_participants > p_max_participants THEN
+    RAISE EXCEPTION 'Minimum participants cannot exceed the maximum';
+  END IF;
+
+  IF p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Session expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.group_sessions (id, event_id, event_name, host_user_id, max_participants, min_participants, status, location, expires_at)
+  VALUES (p_session_id, p_event_id, p_event_name, auth.uid(), p_max_participants, p_min_participants, 'waiting', p_location, p_expires_at)
+  RETURNING * INTO v_session;
+
+  INSERT INTO public.group_participants (session_id, user_id, username, commitment, nullifier, is_host)
+  VALUES (p_session_id, auth.uid(), p_username, p_commitment, p_nullifier, true);
+
+  INSERT INTO public.group_session_invite_keys (session_id, invite_key)
+  VALUES (p_session_id, encode(extensions.gen_random_bytes(32), 'hex'));
+
+  RETURN v_session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_session(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_group_session(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Sessions are only created through create_group_session()
+DROP POLICY "Users can host group sessions" ON public.group_sessions;
+DROP POLICY "Hosts can add themselves to their sessions" ON public.group_participants;
+DROP POLICY "Hosts can create their invite keys" ON public.group_session_invite_keys;
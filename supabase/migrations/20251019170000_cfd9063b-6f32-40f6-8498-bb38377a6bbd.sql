@@ -0,0 +1,90 @@
+-- Finalized group proofs are published to every member, not only kept on the host's device
+CREATE TABLE public.group_proof_publications (
+  session_id TEXT PRIMARY KEY REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  group_proof_id TEXT NOT NULL,
+  merkle_root TEXT NOT NULL CHECK (merkle_root ~ '^0x[0-9a-f]{64}$'),
+  merkle_depth INTEGER NOT NULL CHECK (merkle_depth >= 0),
+  hash_algorithm TEXT NOT NULL,
+  inclusion_paths JSONB NOT NULL,
+  proof TEXT NOT NULL,
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.group_proof_publications ENABLE ROW LEVEL SECURITY;
+
+-- Written only by finalize_group_session(); never changed afterwards
+CREATE POLICY "Members can view published group proofs"
+ON public.group_proof_publications
+FOR SELECT
+USING (public.is_group_member(session_id));
+
+-- The host now submits the tree it built; it is published in the same transaction that
+-- completes the session, and only if it covers exactly the server's roster
+DROP FUNCTION public.finalize_group_session(TEXT);
+
+CREATE OR REPLACE FUNCTION public.finalize_group_session(
+  p_session_id TEXT,
+  p_group_proof_id TEXT,
+  p_commitments TEXT[],
+  p_merkle_root TEXT,
+  p_merkle_depth INTEGER,
+  p_hash_algorithm TEXT,
+  p_inclusion_paths JSONB,
+  p_proof TEXT
+)
+RETURNS SETOF public.group_participants
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can generate the group proof';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer active';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.group_participants WHERE session_id = p_session_id;
+
+  IF v_count < v_session.min_participants THEN
+    RAISE EXCEPTION 'Minimum % participants required', v_session.min_participants;
+  END IF;
+
+  IF (SELECT array_agg(c ORDER BY c) FROM unnest(p_commitments) AS c)
+     IS DISTINCT FROM
+     (SELECT array_agg(commitment ORDER BY commitment) FROM public.group_participants WHERE session_id = p_session_id) THEN
+    RAISE EXCEPTION 'The participant list changed, reload the session and try again';
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_object_keys(p_inclusion_paths)) <> v_count THEN
+    RAISE EXCEPTION 'An inclusion path is required for every participant';
+  END IF;
+
+  INSERT INTO public.group_proof_publications (
+    session_id, group_proof_id, merkle_root, merkle_depth, hash_algorithm, inclusion_paths, proof
+  ) VALUES (
+    p_session_id, p_group_proof_id, p_merkle_root, p_merkle_depth, p_hash_algorithm, p_inclusion_paths, p_proof
+  );
+
+  UPDATE public.group_sessions SET locked = true, status = 'completed' WHERE id = p_session_id;
+
+  RETURN QUERY
+    SELECT * FROM public.group_participants WHERE session_id = p_session_id ORDER BY joined_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_group_session(TEXT, TEXT, TEXT[], TEXT, INTEGER, TEXT, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finalize_group_session(TEXT, TEXT, TEXT[], TEXT, INTEGER, TEXT, JSONB, TEXT) TO authenticated;
+
+ALTER TABLE public.group_proof_publications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_proof_publications;
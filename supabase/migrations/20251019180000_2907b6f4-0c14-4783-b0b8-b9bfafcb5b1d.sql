@@ -0,0 +1,87 @@
+-- A completed session is final: its roster, lock and status back the published group proof
+CREATE OR REPLACE FUNCTION public.prevent_completed_group_session_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'Completed sessions cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_completed_group_session_update
+  BEFORE UPDATE ON public.group_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_completed_group_session_update();
+
+-- Hosts change their sessions only through the functions below and finalize_group_session()
+DROP POLICY "Hosts can update their group sessions" ON public.group_sessions;
+
+-- Host only: a locked session accepts no new participants
+CREATE OR REPLACE FUNCTION public.set_group_session_locked(p_session_id TEXT, p_locked BOOLEAN)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+BEGIN
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can lock the session';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer active';
+  END IF;
+
+  UPDATE public.group_sessions SET locked = p_locked WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Host only: end an open session for everyone
+CREATE OR REPLACE FUNCTION public.end_group_session(p_session_id TEXT)
+RETURNS public.group_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session public.group_sessions;
+BEGIN
+  SELECT * INTO v_session FROM public.group_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.host_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can end the session';
+  END IF;
+
+  IF v_session.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'Session is no longer active';
+  END IF;
+
+  UPDATE public.group_sessions SET status = 'expired' WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_group_session_locked(TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_group_session_locked(TEXT, BOOLEAN) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.end_group_session(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.end_group_session(TEXT) TO authenticated;
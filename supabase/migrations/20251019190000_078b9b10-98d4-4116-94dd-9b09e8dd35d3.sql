@@ -0,0 +1,23 @@
+-- Leaving is held to the same rules as removal: only while the session is open, and never
+-- the host, who ends the session instead
+DROP POLICY "Participants can leave and hosts can remove participants" ON public.group_participants;
+
+CREATE POLICY "Participants can leave and hosts can remove participants"
+ON public.group_participants
+FOR DELETE
+USING (
+  NOT is_host
+  AND (
+    (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM public.group_sessions s
+        WHERE s.id = session_id AND s.status IN ('waiting', 'active')
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.group_sessions s
+      WHERE s.id = session_id AND s.host_user_id = auth.uid() AND s.status IN ('waiting', 'active')
+    )
+  )
+);
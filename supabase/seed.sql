@@ -0,0 +1,11 @@
+-- Sample catalog for local development (supabase db reset)
+INSERT INTO public.events (name, description, location, category, starts_at, ends_at, organizer, requires_proof, attendee_count)
+VALUES
+  ('ETH Denver 2025', 'The largest Ethereum event in the world returns to Denver', 'Denver, CO', 'Conference',
+    '2025-02-28 16:00:00+00', '2025-03-03 02:00:00+00', 'ETHDenver', true, 4500),
+  ('ZK Summit 11', 'The premier zero-knowledge proof research conference', 'Athens, Greece', 'Research',
+    '2025-04-10 07:00:00+00', '2025-04-12 16:00:00+00', 'ZK Summit', true, 800),
+  ('Privacy Tech Meetup', 'Monthly meetup for privacy technology enthusiasts', 'San Francisco, CA', 'Meetup',
+    '2024-12-16 02:00:00+00', '2024-12-16 05:00:00+00', 'Privacy Tech SF', false, 150),
+  ('Cryptography Workshop', 'Hands-on workshop on modern cryptographic protocols', 'Online', 'Workshop',
+    '2025-01-20 14:00:00+00', '2025-01-20 17:00:00+00', 'ZKPresence', true, 300);